@@ -1,6 +1,7 @@
 import { defineConfig, devices } from '@playwright/test';
 import dotenv from 'dotenv';
 import path from 'path';
+import type { HealingTestOptions } from './utils/healing-fixture';
 
 /**
  * Read environment variables from file.
@@ -11,8 +12,10 @@ dotenv.config({ path: path.resolve(__dirname, '.env') });
 /**
  * See https://playwright.dev/docs/test-configuration.
  */
-export default defineConfig({
+export default defineConfig<HealingTestOptions>({
   testDir: './tests',
+  /* The framework's self-tests run with playwright.self-test.config.ts */
+  testIgnore: 'self-test/**',
   /* Run tests in files in parallel */
   fullyParallel: false,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
@@ -24,7 +27,11 @@ export default defineConfig({
   /* Reporter to use. See https://playwright.dev/docs/test-reporters */
   reporter: [
     ['html', { open: 'never' }],
-    ['./utils/healing-reporter.ts', { outputFile: 'healing-reports/summary.json' }],
+    ['./utils/healing-reporter.ts', {
+      outputFile: 'healing-reports/summary.json',
+      junit: 'healing-reports/junit.xml',     // healed locators as test case warnings
+      sarif: 'healing-reports/healing.sarif', // healed and broken locators for code scanning
+    }],
   ],
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
@@ -34,6 +41,19 @@ export default defineConfig({
 
     /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
     trace: 'on-first-retry',
+
+    /* Self-healing provider. Falls back to HEALING_PROVIDER / HEALING_MODEL / HEALING_BASE_URL when unset. */
+    healingOptions: {
+      // provider: 'openai',       // 'openai' | 'anthropic' | 'azure-openai' | 'local'
+      // model: 'gpt-4o',
+      // baseURL: 'http://localhost:11434/v1',
+      // cacheTtlDays: 14,         // forget cached healings not verified for this long
+      // evidence: true,           // attach before/after screenshots and a DOM snippet per healing
+      // domTokenBudget: 3000,     // size of the page context sent to the provider
+      // pageContext: 'html',      // 'html' | 'aria' (accessibility snapshot) | 'both'
+      // policy: 'heal',           // 'heal' | 'heal-and-warn' | 'heal-and-fail' | 'report-only', or HEALING_POLICY
+      // record: 'replay',         // 'record' | 'replay' provider replies in tests/fixtures/healing-recordings, or HEALING_RECORD
+    },
   },
 
   /* Configure projects for major browsers */
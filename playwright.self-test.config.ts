@@ -0,0 +1,53 @@
+import { defineConfig, devices } from '@playwright/test';
+import type { HealingTestOptions } from './utils/healing-fixture';
+
+const SITE_PORT = 4173;
+const STUB_PORT = 4174;
+
+/**
+ * Self-tests of the healing framework: the specs in tests/self-test heal
+ * locators on the local fixture site (tests/fixtures/site) against the stub
+ * model server, so they need no network or API key.
+ *
+ *   npm run test:self
+ */
+export default defineConfig<HealingTestOptions>({
+  testDir: './tests/self-test',
+  forbidOnly: !!process.env.CI,
+  /* A retry would hide a flaky healing */
+  retries: 0,
+  workers: process.env.CI ? 1 : undefined,
+  /* No HealingReporter: these healings are expected and must not reach healing-reports/ */
+  reporter: [['list'], ['html', { open: 'never', outputFolder: 'playwright-report/self-test' }]],
+  use: {
+    headless: true,
+    baseURL: `http://127.0.0.1:${SITE_PORT}`,
+    trace: 'retain-on-failure',
+    healingOptions: {
+      provider: 'local',
+      model: 'stub',
+      baseURL: `http://127.0.0.1:${STUB_PORT}/v1`,
+      structuredOutput: true,
+      // Fixed here, so HEALING_POLICY does not change the outcomes under test
+      policy: 'heal',
+    },
+  },
+  webServer: [
+    {
+      command: `npm run test:serve-fixtures -- --port ${SITE_PORT}`,
+      url: `http://127.0.0.1:${SITE_PORT}/index.html`,
+      reuseExistingServer: !process.env.CI,
+    },
+    {
+      command: `npm run healing:stub-server -- --rules tests/self-test/stub-rules.json --port ${STUB_PORT}`,
+      url: `http://127.0.0.1:${STUB_PORT}/v1/models`,
+      reuseExistingServer: !process.env.CI,
+    },
+  ],
+  projects: [
+    {
+      name: 'chromium',
+      use: { ...devices['Desktop Chrome'] },
+    },
+  ],
+});
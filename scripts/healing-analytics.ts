@@ -0,0 +1,64 @@
+/**
+ * Prints locator trends from the healing run history.
+ *
+ *   npm run healing:analytics
+ *   npm run healing:analytics -- --json > analytics.json
+ *   npm run healing:analytics -- --summary path/to/summary.json
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { HealingAnalyzer, HealingHotSpot, LocatorTrend } from '../utils/healing-analytics';
+import { HealingSummaryBuilder } from '../utils/healing-summary';
+
+function printTrends(title: string, trends: LocatorTrend[]) {
+  if (trends.length === 0) return;
+  console.log(`\n${title}:`);
+  for (const trend of trends) {
+    console.log(`   ${trend.originalLocator}  (${trend.runsHealed}/${trend.runsSinceFirstSeen} runs)`);
+    if (trend.healedTo.length > 0) console.log(`      → ${trend.healedTo.join(' | ')}`);
+    if (trend.locations.length > 0) console.log(`      at ${trend.locations.join(', ')}`);
+  }
+}
+
+function printHotSpots(title: string, hotSpots: HealingHotSpot[]) {
+  if (hotSpots.length === 0) return;
+  console.log(`\n${title}:`);
+  for (const spot of hotSpots.slice(0, 10)) {
+    console.log(`   ${String(spot.healings).padStart(4)} healings, ${spot.locators} locators, ${spot.tests} tests  ${spot.key}`);
+  }
+}
+
+function main(argv: string[]): number {
+  const summaryIndex = argv.indexOf('--summary');
+  const summaryPath = summaryIndex >= 0 && argv[summaryIndex + 1]
+    ? argv[summaryIndex + 1]
+    : path.join('healing-reports', 'summary.json');
+
+  if (!fs.existsSync(summaryPath)) {
+    console.error(`✗ Healing summary not found: ${summaryPath}`);
+    return 1;
+  }
+
+  const analytics = HealingAnalyzer.analyze(HealingSummaryBuilder.read(summaryPath));
+  if (argv.includes('--json')) {
+    console.log(JSON.stringify(analytics, null, 2));
+    return 0;
+  }
+
+  console.log(`🏥 Locator trends over ${analytics.runsAnalyzed} runs`);
+  printTrends('Permanently broken (healed on every run)', analytics.permanentlyBroken);
+  printTrends('Flaky (healed on some runs)', analytics.flaky);
+
+  if (analytics.healedThenBroke.length > 0) {
+    console.log('\nHealed locators that broke later:');
+    for (const entry of analytics.healedThenBroke) {
+      console.log(`   ${entry.originalLocator} → ${entry.healedLocator}${entry.replacedBy ? ` → ${entry.replacedBy}` : ''}`);
+    }
+  }
+
+  printHotSpots('Page hot-spots', analytics.pageHotSpots);
+  printHotSpots('File hot-spots', analytics.fileHotSpots);
+  return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,87 @@
+/**
+ * Inspects and maintains the healing cache (.healing/cache.json).
+ *
+ *   npm run healing:cache -- list [--json]
+ *   npm run healing:cache -- invalidate --locator "getByRole('button', { name: 'Submitt' })"
+ *   npm run healing:cache -- invalidate --test <testId> | --url <urlPattern> | --all
+ *   npm run healing:cache -- prune [--ttl-days 7]
+ *
+ * Every command accepts --file path/to/cache.json
+ */
+import { HealingCache, HealingCacheEntry } from '../utils/healing-cache';
+
+function option(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+function printEntries(cache: HealingCache, entries: HealingCacheEntry[]) {
+  for (const entry of entries) {
+    const expired = cache.isExpired(entry) ? ' (expired)' : '';
+    console.log(`\n${entry.originalLocator}`);
+    console.log(`   → ${entry.healedLocator}`);
+    console.log(`   Page:       ${entry.urlPattern}`);
+    console.log(`   Test:       ${entry.testName || '-'}${entry.projectName ? ` [${entry.projectName}]` : ''} ${entry.testId || ''}`);
+    console.log(`   Healed by:  ${entry.healedBy || '-'}, confidence ${entry.confidence.toFixed(2)}, ${entry.hitCount} hits`);
+    console.log(`   Verified:   ${entry.lastVerifiedAt}, expires ${cache.expiresAt(entry).toISOString()}${expired}`);
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command] = argv;
+  const ttl = option(argv, '--ttl-days');
+  const cache = new HealingCache(option(argv, '--file'), { ttlDays: ttl ? Number(ttl) : undefined });
+
+  switch (command) {
+    case 'list': {
+      const entries = cache.list();
+      if (argv.includes('--json')) {
+        console.log(JSON.stringify(entries, null, 2));
+      } else {
+        printEntries(cache, entries);
+        console.log(`\n${entries.length} cached healings in ${cache.filePath}`);
+      }
+      return 0;
+    }
+
+    case 'invalidate': {
+      const locator = option(argv, '--locator');
+      const testId = option(argv, '--test');
+      const url = option(argv, '--url');
+      if (!locator && !testId && !url && !argv.includes('--all')) {
+        console.error('✗ invalidate needs --locator, --test, --url or --all');
+        return 1;
+      }
+
+      const removed = await cache.invalidate(
+        entry =>
+          (!locator || entry.originalLocator === locator || entry.healedLocator === locator) &&
+          (!testId || entry.testId === testId) &&
+          (!url || entry.urlPattern === url)
+      );
+      console.log(`✓ Invalidated ${removed.length} cached healings`);
+      return 0;
+    }
+
+    case 'prune': {
+      const removed = await cache.prune();
+      printEntries(cache, removed);
+      console.log(`✓ Pruned ${removed.length} expired healings, ${cache.size} left`);
+      return 0;
+    }
+
+    default:
+      console.error('Usage: healing-cache <list|invalidate|prune> [options]');
+      return 1;
+  }
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(`✗ ${error.message}`);
+    process.exitCode = 1;
+  }
+);
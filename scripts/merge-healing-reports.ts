@@ -0,0 +1,87 @@
+/**
+ * Merges the healing summaries of CI shards into one summary.json and HTML report.
+ *
+ *   npm run healing:merge -- shard-1/summary.json shard-2/summary.json
+ *   npm run healing:merge -- all-healing-reports/             # finds every summary.json below
+ *   npm run healing:merge -- all-healing-reports/ --output healing-reports/summary.json
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { HealingSummary, HealingSummaryBuilder } from '../utils/healing-summary';
+
+function findSummaries(dir: string): string[] {
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(entry => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return findSummaries(entryPath);
+      return entry.name === 'summary.json' ? [entryPath] : [];
+    });
+}
+
+function main(argv: string[]): number {
+  let outputPath = path.join('healing-reports', 'summary.json');
+  const inputs: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--output') {
+      outputPath = argv[++i] ?? outputPath;
+    } else {
+      inputs.push(argv[i]);
+    }
+  }
+
+  if (inputs.length === 0) {
+    console.error('Usage: merge-healing-reports <summary.json | directory>... [--output path/to/summary.json]');
+    return 1;
+  }
+
+  const files: string[] = [];
+  for (const input of inputs) {
+    if (!fs.existsSync(input)) {
+      console.error(`✗ Not found: ${input}`);
+      return 1;
+    }
+    files.push(...(fs.statSync(input).isDirectory() ? findSummaries(input) : [input]));
+  }
+
+  // A previous merge output below an input directory would count its tests twice
+  const sources = files.filter(file => path.resolve(file) !== path.resolve(outputPath));
+
+  // Evidence paths are relative to each summary; file names are unique per healing
+  const evidenceDir = path.join(path.dirname(outputPath), 'evidence');
+
+  const summaries: HealingSummary[] = [];
+  for (const file of sources) {
+    try {
+      summaries.push(HealingSummaryBuilder.read(file));
+      console.log(`✓ Read ${file}`);
+
+      const sourceEvidence = path.join(path.dirname(file), 'evidence');
+      if (fs.existsSync(sourceEvidence) && path.resolve(sourceEvidence) !== path.resolve(evidenceDir)) {
+        fs.cpSync(sourceEvidence, evidenceDir, { recursive: true });
+      }
+    } catch (e) {
+      console.error(`✗ Skipping ${file}: ${(e as Error).message}`);
+    }
+  }
+
+  if (summaries.length === 0) {
+    console.error('✗ No healing summaries to merge');
+    return 1;
+  }
+
+  const merged = HealingSummaryBuilder.merge(summaries);
+  const { htmlPath, markdownPath } = HealingSummaryBuilder.write(merged, outputPath);
+
+  console.log(
+    `\n🏥 Merged ${summaries.length} summaries: ${merged.totalHealing} healings (${merged.successfulHealing} successful, ` +
+      `${merged.suggestedHealing ? `${merged.suggestedHealing} suggested only, ` : ''}${merged.failedHealing} failed)`
+  );
+  console.log(`📊 JSON Report: ${outputPath}`);
+  console.log(`📊 HTML Report: ${htmlPath}`);
+  console.log(`📊 Markdown Summary: ${markdownPath}`);
+  return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,71 @@
+/**
+ * Rewrites healed locators back into the spec files.
+ *
+ * Only the healings of the summary's current run are used: older healings may
+ * already be patched, or no longer apply to the specs.
+ *
+ *   npm run healing:patch                 # print a unified diff
+ *   npm run healing:patch -- --write      # patch the files in place
+ *   npm run healing:patch -- --summary path/to/summary.json
+ *   npm run healing:patch -- --all-runs   # use the healings of every recorded run
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { HealingSummary, HealingSummaryBuilder } from '../utils/healing-summary';
+import { LocatorPatcher } from '../utils/locator-patcher';
+
+function main(argv: string[]): number {
+  const write = argv.includes('--write');
+  const allRuns = argv.includes('--all-runs');
+  const summaryIndex = argv.indexOf('--summary');
+  const summaryPath = summaryIndex >= 0 && argv[summaryIndex + 1]
+    ? argv[summaryIndex + 1]
+    : path.join('healing-reports', 'summary.json');
+
+  if (!fs.existsSync(summaryPath)) {
+    console.error(`✗ Healing summary not found: ${summaryPath}`);
+    return 1;
+  }
+
+  let summary: HealingSummary;
+  try {
+    summary = HealingSummaryBuilder.read(summaryPath);
+  } catch (e) {
+    console.error(`✗ Cannot read ${summaryPath}: ${(e as Error).message}`);
+    return 1;
+  }
+
+  const changes = summary.changes;
+  const run = summary.currentRun;
+  if (!allRuns && !run) {
+    console.error(`✗ ${summaryPath} has no current run; pass --all-runs to patch from every recorded run`);
+    return 1;
+  }
+
+  const patcher = new LocatorPatcher();
+  const plan = patcher.plan(allRuns ? changes : changes.filter(c => c.runId === run!.runId));
+
+  if (write) {
+    patcher.apply(plan);
+    for (const patch of plan.patches) {
+      console.error(`✓ Patched ${patch.file} (${patch.replacements.length} locators)`);
+    }
+  } else {
+    process.stdout.write(LocatorPatcher.diff(plan));
+  }
+
+  if (plan.skipped.length > 0) {
+    console.error(`\n⚠ Skipped ${plan.skipped.length} healings:`);
+    for (const entry of plan.skipped) {
+      const where = entry.file ? `${entry.file}:${entry.line}` : 'unknown location';
+      console.error(`   ${where}  ${entry.originalLocator}  (${entry.reason})`);
+    }
+  }
+
+  if (plan.patches.length === 0) {
+    console.error('No locators to patch');
+  }
+  return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,86 @@
+/**
+ * Serves the static fixture site used by the healing self-tests
+ * (started by playwright.self-test.config.ts as its webServer).
+ *
+ *   npm run test:serve-fixtures -- [--port 4173] [--dir tests/fixtures/site]
+ */
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+
+const CONTENT_TYPES: { [extension: string]: string } = {
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.json': 'application/json',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+};
+
+function option(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const root = path.resolve(option(argv, '--dir') || path.join('tests', 'fixtures', 'site'));
+  const port = Number(option(argv, '--port') || 4173);
+  if (!fs.existsSync(root)) {
+    console.error(`✗ Fixture site not found: ${root}`);
+    return 1;
+  }
+
+  const server = http.createServer((req, res) => {
+    let urlPath: string;
+    try {
+      urlPath = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+    } catch (e) {
+      res.writeHead(400, { 'Content-Type': 'text/plain' });
+      res.end(`Bad request path: ${req.url}`);
+      return;
+    }
+    let filePath = path.join(root, urlPath);
+    if (urlPath.endsWith('/')) filePath = path.join(filePath, 'index.html');
+
+    // No requests outside the site
+    if (!filePath.startsWith(root + path.sep) || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end(`Not found: ${urlPath}`);
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': CONTENT_TYPES[path.extname(filePath)] || 'application/octet-stream',
+      'Cache-Control': 'no-store',
+    });
+    fs.createReadStream(filePath).pipe(res);
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+  } catch (e) {
+    console.error(`✗ Could not serve the fixture site on port ${port}: ${(e as Error).message}`);
+    return 1;
+  }
+  console.log(`✓ Serving ${path.relative(process.cwd(), root)} on http://127.0.0.1:${port}`);
+
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', () => resolve());
+    process.once('SIGTERM', () => resolve());
+  });
+  server.close();
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(`✗ ${error.message}`);
+    process.exitCode = 1;
+  }
+);
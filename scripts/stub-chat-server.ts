@@ -0,0 +1,65 @@
+/**
+ * Serves canned locator suggestions over the OpenAI chat-completions protocol,
+ * so the `local` provider can heal without a model or network.
+ *
+ *   npm run healing:stub-server -- --rules stub-rules.json [--port 11435]
+ *   HEALING_PROVIDER=local HEALING_BASE_URL=http://127.0.0.1:11435/v1 npx playwright test
+ *
+ * The rules file is a JSON array of { "match": "<text in the prompt>", "suggestions": [...] };
+ * suggestions are locator strings or { locator, strategy, confidence, rationale } objects.
+ */
+import * as fs from 'fs';
+import { StubChatRule, StubChatServer } from '../utils/stub-chat-server';
+
+function option(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const rulesPath = option(argv, '--rules');
+  let rules: StubChatRule[] = [];
+  if (rulesPath) {
+    try {
+      rules = JSON.parse(fs.readFileSync(rulesPath, 'utf-8'));
+    } catch (e) {
+      console.error(`✗ Could not read stub rules ${rulesPath}: ${(e as Error).message}`);
+      return 1;
+    }
+    if (!Array.isArray(rules)) {
+      console.error(`✗ Stub rules must be a JSON array: ${rulesPath}`);
+      return 1;
+    }
+  }
+
+  const port = Number(option(argv, '--port') || 11435);
+  const server = new StubChatServer({ port, rules });
+  let baseURL: string;
+  try {
+    baseURL = await server.start();
+  } catch (e) {
+    // e.g. EADDRINUSE when another stub server still runs
+    console.error(`✗ Could not start the stub server on port ${port}: ${(e as Error).message}`);
+    return 1;
+  }
+  console.log(`✓ Stub chat-completions server listening on ${baseURL} (${rules.length} rules)`);
+  console.log('   Press Ctrl+C to stop');
+
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', () => resolve());
+    process.once('SIGTERM', () => resolve());
+  });
+  await server.stop();
+  console.log(`\n✓ Stopped after ${server.requests.length} requests`);
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(`✗ ${error.message}`);
+    process.exitCode = 1;
+  }
+);
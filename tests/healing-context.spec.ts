@@ -0,0 +1,169 @@
+import { test, expect, Page } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { HealingContext, HealingOptions } from '../utils/healing-fixture';
+import { OpenAIService } from '../utils/openai-service';
+import { RecordingProvider } from '../utils/recording-provider';
+import { StubChatRule, StubChatServer } from '../utils/stub-chat-server';
+
+// Healing against a local page and a stub model: no network, no API key
+const REGISTER_PAGE = fs.readFileSync(path.join(__dirname, 'fixtures', 'pages', 'register.html'), 'utf-8');
+
+const RULES: StubChatRule[] = [
+  {
+    match: "locator('#firstNme')",
+    suggestions: [
+      { locator: "locator('.field')", strategy: 'css', confidence: 0.4, rationale: 'Text fields in the form' },
+      { locator: "getByLabel('First Name')", strategy: 'label', confidence: 0.9, rationale: 'The field labelled First Name' },
+    ],
+  },
+  {
+    match: "locator('#emial')",
+    suggestions: ["document.querySelector('#email')", "getByPlaceholder('you@example.com')"],
+  },
+  {
+    match: "locator('#termsNote')",
+    suggestions: ["locator('#terms-note')"],
+  },
+  {
+    match: "locator('#lastNme')",
+    suggestions: [{ locator: "getByLabel('Last Name')", strategy: 'label', confidence: 0.9, rationale: 'The field labelled Last Name' }],
+  },
+];
+
+// Only the provider stage, so results do not depend on heuristic ranking or earlier runs
+const OPTIONS: HealingOptions = { heuristic: false, cache: false, evidence: false };
+
+const server = new StubChatServer({ rules: RULES });
+
+function stubProvider(baseURL: string): OpenAIService {
+  return new OpenAIService({ name: 'local', model: 'stub', apiKey: 'not-needed', baseURL });
+}
+
+function locatorError(locator: string): Error {
+  return new Error(`locator.fill: Timeout 1000ms exceeded.\nCall log:\n  - waiting for ${locator}`);
+}
+
+async function heal(context: HealingContext, page: Page, action: string, locator: string) {
+  return context.healLocator(page, action, locator, locatorError(locator), 'registers a customer', {
+    errorCategory: 'not-found',
+  });
+}
+
+test.describe('HealingContext', () => {
+  test.beforeAll(async () => {
+    await server.start();
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test.beforeEach(async ({ page }) => {
+    await page.setContent(REGISTER_PAGE);
+  });
+
+  test('heals with the first suggestion that passes verification', async ({ page }) => {
+    const context = new HealingContext(stubProvider(server.baseURL), OPTIONS);
+
+    const result = await heal(context, page, 'fill', "locator('#firstNme')");
+
+    expect(result.healed).toBe(true);
+    await result.locator!.fill('Ada');
+    await expect(page.locator('[id="customer.firstName"]')).toHaveValue('Ada');
+
+    const [change] = context.getChanges();
+    expect(change).toMatchObject({
+      success: true,
+      originalLocator: "locator('#firstNme')",
+      healedLocator: "getByLabel('First Name')",
+      healedBy: 'ai',
+      provider: 'local/stub',
+      applied: true,
+    });
+    expect(change.attempts).toEqual([
+      expect.objectContaining({
+        locator: "locator('.field')",
+        outcome: 'rejected',
+        reason: 'Matches 2 elements, expected exactly one',
+        rationale: 'Text fields in the form',
+      }),
+      expect.objectContaining({
+        locator: "getByLabel('First Name')",
+        outcome: 'accepted',
+        strategy: 'label',
+        confidence: 0.9,
+        rationale: 'The field labelled First Name',
+      }),
+    ]);
+  });
+
+  test('asks for schema-constrained replies', async ({ page }) => {
+    const context = new HealingContext(stubProvider(server.baseURL), OPTIONS);
+
+    await heal(context, page, 'fill', "locator('#firstNme')");
+
+    const request = server.requests[server.requests.length - 1];
+    expect(request.responseFormat).toMatchObject({ type: 'json_schema', json_schema: { name: 'locator_suggestions' } });
+    expect(request.messages[1].content).toContain("Failed Locator: locator('#firstNme')");
+    expect(request.messages[1].content).toContain('id="customer.firstName"');
+  });
+
+  test('records suggestions outside the locator grammar as invalid', async ({ page }) => {
+    const context = new HealingContext(stubProvider(server.baseURL), OPTIONS);
+
+    const result = await heal(context, page, 'fill', "locator('#emial')");
+
+    expect(result.healed).toBe(true);
+    const [change] = context.getChanges();
+    expect(change.healedLocator).toBe("getByPlaceholder('you@example.com')");
+    expect(change.attempts![0]).toMatchObject({ outcome: 'invalid', errorType: 'LocatorParseError' });
+  });
+
+  test('records a failed healing when no suggestion can be verified', async ({ page }) => {
+    const context = new HealingContext(stubProvider(server.baseURL), OPTIONS);
+
+    const result = await heal(context, page, 'waitFor', "locator('#termsNote')");
+
+    expect(result).toEqual({ locator: null, healed: false });
+    const [change] = context.getChanges();
+    expect(change.success).toBe(false);
+    expect(change.attemptedLocators).toEqual(["locator('#terms-note')"]);
+    expect(change.attempts![0]).toMatchObject({ outcome: 'rejected', reason: 'Element is not visible' });
+  });
+
+  test('report-only records the healed locator without using it', async ({ page }) => {
+    const context = new HealingContext(stubProvider(server.baseURL), { ...OPTIONS, policy: 'report-only' });
+
+    const result = await heal(context, page, 'fill', "locator('#lastNme')");
+
+    expect(result).toEqual({ locator: null, healed: false });
+    expect(context.getChanges()[0]).toMatchObject({
+      success: true,
+      healedLocator: "getByLabel('Last Name')",
+      policy: 'report-only',
+      applied: false,
+    });
+  });
+
+  test('replays recorded replies without the provider', async ({ page }, testInfo) => {
+    const dir = testInfo.outputPath('recordings');
+    const recordServer = new StubChatServer({ rules: RULES });
+    const recording = new RecordingProvider({ mode: 'record', dir, provider: stubProvider(await recordServer.start()) });
+    try {
+      await heal(new HealingContext(recording, OPTIONS), page, 'fill', "locator('#lastNme')");
+    } finally {
+      await recordServer.stop();
+    }
+    expect(recordServer.requests).toHaveLength(1);
+    expect(fs.readdirSync(dir)).toEqual([expect.stringMatching(/^locator-[0-9a-f]{16}\.json$/)]);
+
+    // Same page and locator, so the same prompt; the server is gone
+    await page.setContent(REGISTER_PAGE);
+    const context = new HealingContext(new RecordingProvider({ mode: 'replay', dir }), OPTIONS);
+    const result = await heal(context, page, 'fill', "locator('#lastNme')");
+
+    expect(result.healed).toBe(true);
+    expect(context.getChanges()[0]).toMatchObject({ healedLocator: "getByLabel('Last Name')", provider: 'replay/recorded' });
+  });
+});
@@ -0,0 +1,63 @@
+import { test, Page } from '@playwright/test';
+import { expect, HealingContext, HealingPage } from '../utils/healing-fixture';
+
+const PAGE = `
+  <p id="loading" hidden>Loading</p>
+  <label for="email">Email</label>
+  <input id="email" type="email" style="color: rgb(255, 0, 0)">
+  <select id="plan" multiple>
+    <option selected>Basic</option>
+    <option selected>Pro</option>
+  </select>
+  <button id="save">Save</button>`;
+
+// Heuristic healing only, nothing written to disk
+function healingPageFor(page: Page): { healingPage: HealingPage; context: HealingContext } {
+  const context = new HealingContext(null, { cache: false, evidence: false });
+  return { healingPage: new HealingPage(page, context, 'healing expect'), context };
+}
+
+test.describe('healing expect', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.setContent(PAGE);
+  });
+
+  test('toBeHidden passes on a hidden element and on no match, without healing', async ({ page }) => {
+    const { healingPage, context } = healingPageFor(page);
+
+    await expect(healingPage.getByText('Loading')).toBeHidden();
+    await expect(healingPage.locator('#spinner')).toBeHidden();
+    await expect(healingPage.locator('#save')).not.toBeHidden();
+
+    expect(context.getChanges()).toHaveLength(0);
+  });
+
+  test('accepts a HealingLocator in state, style and accessibility matchers', async ({ page }) => {
+    const { healingPage, context } = healingPageFor(page);
+    const email = healingPage.locator('#email');
+
+    await expect(email).toBeEmpty();
+    await expect(email).toBeInViewport();
+    await expect(email).toHaveCSS('color', 'rgb(255, 0, 0)');
+    await expect(email).toHaveRole('textbox');
+    await expect(email).toHaveAccessibleName('Email');
+    await expect(email).toHaveJSProperty('type', 'email');
+    await expect(healingPage.locator('#plan')).toHaveValues(['Basic', 'Pro']);
+    await expect(healingPage.getByRole('button')).toMatchAriaSnapshot('- button "Save"');
+
+    expect(context.getChanges()).toHaveLength(0);
+  });
+
+  test('heals the locator of any matcher when nothing matches', async ({ page }) => {
+    const { healingPage, context } = healingPageFor(page);
+
+    await expect(healingPage.locator('#emial')).toHaveAccessibleName('Email', { timeout: 1000 });
+
+    expect(context.getChanges()[0]).toMatchObject({
+      action: 'toHaveAccessibleName',
+      trigger: 'assertion',
+      success: true,
+      healedLocator: `locator('[id="email"]')`,
+    });
+  });
+});
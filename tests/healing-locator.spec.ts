@@ -0,0 +1,76 @@
+import { test, expect, Page } from '@playwright/test';
+import { HealingContext, HealingPage } from '../utils/healing-fixture';
+
+const PAGE = `
+  <ul>
+    <li>Savings</li>
+    <li>Checking</li>
+  </ul>
+  <label for="email">Email</label>
+  <input id="email" type="email">
+  <button id="save">Save</button>`;
+
+// Heuristic healing only, nothing written to disk
+function healingPageFor(page: Page): { healingPage: HealingPage; context: HealingContext } {
+  const context = new HealingContext(null, { cache: false, evidence: false });
+  return { healingPage: new HealingPage(page, context, 'healing locator'), context };
+}
+
+test.describe('HealingLocator', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.setContent(PAGE);
+  });
+
+  test('lists the current matches without healing an empty list', async ({ page }) => {
+    const { healingPage, context } = healingPageFor(page);
+
+    const items = await healingPage.locator('li').all();
+    expect(items).toHaveLength(2);
+    expect(await items[1].textContent()).toBe('Checking');
+    expect(await healingPage.locator('li').allTextContents()).toEqual(['Savings', 'Checking']);
+    expect(await healingPage.locator('li').evaluateAll(items => items.length)).toBe(2);
+
+    expect(await healingPage.locator('tr').all()).toEqual([]);
+    expect(await healingPage.locator('#gone').isHidden()).toBe(true);
+    expect(context.getChanges()).toHaveLength(0);
+  });
+
+  test('heals element reads such as evaluate', async ({ page }) => {
+    const { healingPage, context } = healingPageFor(page);
+
+    const type = await healingPage.locator('#emial').evaluate((el, attribute) => el.getAttribute(attribute), 'type');
+
+    expect(type).toBe('email');
+    expect(context.getChanges()[0]).toMatchObject({
+      action: 'evaluate',
+      success: true,
+      healedLocator: `locator('[id="email"]')`,
+    });
+  });
+
+  test('combines locators with and/or', async ({ page }) => {
+    const { healingPage } = healingPageFor(page);
+
+    const save = healingPage.getByRole('button').and(healingPage.locator('#save'));
+    const saveOrMissing = healingPage.locator('#missing').or(healingPage.getByRole('button', { name: 'Save' }));
+
+    expect(save.selector).toBe("getByRole('button').and(locator('#save'))");
+    expect(await save.count()).toBe(1);
+    expect(await saveOrMissing.innerText()).toBe('Save');
+  });
+
+  test('focuses, clears and blurs fields', async ({ page }) => {
+    const { healingPage } = healingPageFor(page);
+    const email = healingPage.getByLabel('Email');
+
+    await email.fill('ada@example.com');
+    await email.focus();
+    expect(await page.evaluate(() => document.activeElement?.id)).toBe('email');
+    await email.clear();
+    await email.blur();
+
+    expect(await email.inputValue()).toBe('');
+    expect(await page.evaluate(() => document.activeElement?.id)).toBe('');
+    expect(await email.boundingBox()).toMatchObject({ width: expect.any(Number), height: expect.any(Number) });
+  });
+});
@@ -0,0 +1,223 @@
+import { test, expect } from '@playwright/test';
+import type { FullConfig, FullResult, Suite, TestCase, TestResult } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import * as path from 'path';
+import HealingReporter, { HealingReporterOptions } from '../utils/healing-reporter';
+import { HEALING_ATTACHMENT, HealingChange } from '../utils/healing-fixture';
+import { HealingAnalyzer } from '../utils/healing-analytics';
+import { HealingSummaryBuilder } from '../utils/healing-summary';
+
+// Drives the reporter with hand-made results, the way Playwright calls it
+const SPEC_FILE = 'tests/checkout.spec.ts';
+
+function testCase(title: string, outcome: ReturnType<TestCase['outcome']> = 'expected'): TestCase {
+  return {
+    id: title,
+    title,
+    titlePath: () => ['', 'chromium', 'checkout.spec.ts', 'Checkout', title],
+    location: { file: path.join(process.cwd(), SPEC_FILE), line: 3, column: 5 },
+    parent: { project: () => ({ name: 'chromium' }) },
+    outcome: () => outcome,
+  } as unknown as TestCase;
+}
+
+function testResult(status: TestResult['status'], changes: HealingChange[] = [], error?: string): TestResult {
+  return {
+    status,
+    duration: 1500,
+    error: error ? { message: error } : undefined,
+    attachments: changes.length > 0
+      ? [{ name: HEALING_ATTACHMENT, contentType: 'application/json', body: Buffer.from(JSON.stringify(changes)) }]
+      : [],
+  } as unknown as TestResult;
+}
+
+function change(testName: string, overrides: Partial<HealingChange> = {}): HealingChange {
+  const success = overrides.success ?? true;
+  return {
+    id: `${testName}-${overrides.originalLocator || 'submit'}`,
+    timestamp: '2026-10-01T10:00:00.000Z',
+    testName,
+    originalLocator: "locator('#submit')",
+    healedLocator: success ? "getByRole('button', { name: 'Pay' })" : '',
+    errorMessage: 'locator.click: Timeout 5000ms exceeded.',
+    errorCategory: 'not-found',
+    success,
+    attemptedLocators: ["getByRole('button', { name: 'Pay' })"],
+    healingTimeMs: 800,
+    provider: 'replay/recorded',
+    healedBy: success ? 'ai' : undefined,
+    location: { file: SPEC_FILE, line: 10, column: 20 },
+    policy: 'heal',
+    applied: success,
+    ...overrides,
+  };
+}
+
+async function run(
+  outputDir: string,
+  results: Array<[TestCase, TestResult]>,
+  options: HealingReporterOptions = {},
+  status: FullResult['status'] = 'passed'
+) {
+  const reporter = new HealingReporter({ outputFile: path.join(outputDir, 'summary.json'), policy: 'heal', ...options });
+  reporter.onBegin({ shard: null } as unknown as FullConfig, {} as Suite);
+  for (const [test, result] of results) {
+    reporter.onTestEnd(test, result);
+  }
+  return reporter.onEnd({ status, startTime: new Date(), duration: 0 } as FullResult);
+}
+
+test.describe('HealingReporter', () => {
+  test('tells tests that passed by healing from tests still failing', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('reports');
+    const retried = testCase('pays by invoice');
+
+    await run(dir, [
+      [testCase('pays by card'), testResult('passed', [change('pays by card')])],
+      [
+        testCase('pays by voucher', 'unexpected'),
+        testResult('failed', [change('pays by voucher', { success: false })], 'locator.click: Timeout 5000ms exceeded.'),
+      ],
+      [retried, testResult('failed', [change('pays by invoice', { success: false })])],
+      [retried, testResult('passed')],
+      [testCase('shows the cart'), testResult('passed')],
+    ]);
+
+    const summary = HealingSummaryBuilder.read(path.join(dir, 'summary.json'));
+    expect(summary.currentRun).toMatchObject({
+      testsRun: 4,
+      testsNeedingHealing: 3,
+      testsPassedByHealing: 1,
+      testsStillFailing: 1,
+      totalHealing: 3,
+      successfulHealing: 1,
+      failedHealing: 2,
+    });
+    expect(summary.changes.every(c => c.runId === summary.currentRun!.runId)).toBe(true);
+    expect(fs.existsSync(path.join(dir, 'summary.html'))).toBe(true);
+    expect(fs.readFileSync(path.join(dir, 'summary.md'), 'utf-8')).toContain('### ✓ Healed locators (1)');
+  });
+
+  test('keeps the healings of earlier runs', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('reports');
+    const results: Array<[TestCase, TestResult]> = [[testCase('pays by card'), testResult('passed', [change('pays by card')])]];
+
+    await run(dir, results);
+    await run(dir, [[testCase('pays by card'), testResult('passed', [change('pays by card', { id: 'second-run' })])]]);
+
+    const summary = HealingSummaryBuilder.read(path.join(dir, 'summary.json'));
+    // Runs on CI share GITHUB_RUN_ID, so they may count as one run
+    expect(summary.changes).toHaveLength(2);
+    expect(summary.totalHealing).toBe(2);
+  });
+
+  test('counts a second invocation with the same run id into that run', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('reports');
+    const runId = process.env.GITHUB_RUN_ID;
+    process.env.GITHUB_RUN_ID = 'ci-run-1';
+    try {
+      await run(dir, [[testCase('pays by card'), testResult('passed', [change('pays by card')])]]);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await run(dir, [
+        [
+          testCase('pays by voucher'),
+          testResult('passed', [change('pays by voucher', { originalLocator: "locator('#voucher')" })]),
+        ],
+        [testCase('shows the cart'), testResult('passed')],
+      ]);
+    } finally {
+      if (runId === undefined) delete process.env.GITHUB_RUN_ID;
+      else process.env.GITHUB_RUN_ID = runId;
+    }
+
+    const summary = HealingSummaryBuilder.read(path.join(dir, 'summary.json'));
+    expect(summary.runs).toHaveLength(1);
+    expect(summary.currentRun).toMatchObject({ runId: 'ci-run-1', testsRun: 3, testsPassedByHealing: 2, totalHealing: 2 });
+    expect(summary.changes.map(c => c.runId)).toEqual(['ci-run-1', 'ci-run-1']);
+    expect(fs.readFileSync(path.join(dir, 'summary.md'), 'utf-8')).toContain('### ✓ Healed locators (2)');
+  });
+
+  test('classifies locators over the runs that ran their tests', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('reports');
+    const card = testCase('pays by card');
+    const healed = (id: string) => testResult('passed', [change('pays by card', { id, testId: card.id })]);
+
+    await run(dir, [[card, healed('first-run')]]);
+    // Another shard or project, which did not run the test
+    await run(dir, [[testCase('shows the cart'), testResult('passed')]]);
+    await run(dir, [[card, healed('third-run')]]);
+
+    const analytics = HealingAnalyzer.analyze(HealingSummaryBuilder.read(path.join(dir, 'summary.json')));
+    expect(analytics.runsAnalyzed).toBe(3);
+    expect(analytics.locators).toEqual([
+      expect.objectContaining({
+        originalLocator: "locator('#submit')",
+        status: 'broken',
+        runsHealed: 2,
+        runsSinceFirstSeen: 2,
+      }),
+    ]);
+  });
+
+  test('writes healed locators as JUnit warnings and SARIF results', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('reports');
+    const junit = path.join(dir, 'junit.xml');
+    const sarif = path.join(dir, 'healing.sarif');
+
+    await run(
+      dir,
+      [
+        [testCase('pays by card'), testResult('passed', [change('pays by card')])],
+        [
+          testCase('pays by voucher', 'unexpected'),
+          testResult(
+            'failed',
+            [change('pays by voucher', { success: false, originalLocator: "locator('#voucher')" })],
+            '\u001b[31mlocator.fill: Timeout 5000ms exceeded.\u001b[39m\nCall log:'
+          ),
+        ],
+      ],
+      { junit, sarif }
+    );
+
+    const xml = fs.readFileSync(junit, 'utf-8');
+    expect(xml).toContain(`<testsuite name="${SPEC_FILE}"`);
+    expect(xml).toContain(
+      `<property name="healing.warning" value="Healed locator locator(&apos;#submit&apos;) -&gt; getByRole(&apos;button&apos;, { name: &apos;Pay&apos; }) at ${SPEC_FILE}:10"/>`
+    );
+    expect(xml).toContain('<failure message="locator.fill: Timeout 5000ms exceeded." type="failed">');
+
+    const results = JSON.parse(fs.readFileSync(sarif, 'utf-8')).runs[0].results;
+    expect(results.map((r: { ruleId: string; level: string }) => [r.ruleId, r.level])).toEqual([
+      ['healed-locator', 'warning'],
+      ['broken-locator', 'error'],
+    ]);
+  });
+
+  test('fails a passing run under heal-and-fail', async ({}, testInfo) => {
+    const results: Array<[TestCase, TestResult]> = [[testCase('pays by card'), testResult('passed', [change('pays by card')])]];
+
+    expect(await run(testInfo.outputPath('heal'), results)).toBeUndefined();
+    expect(await run(testInfo.outputPath('fail'), results, { policy: 'heal-and-fail' })).toEqual({ status: 'failed' });
+  });
+
+  test('does not fail the run for suggestions that were not used', async ({}, testInfo) => {
+    const suggested = change('pays by card', { policy: 'report-only', applied: false });
+
+    const status = await run(
+      testInfo.outputPath('reports'),
+      [[testCase('pays by card', 'unexpected'), testResult('failed', [suggested])]],
+      { policy: 'heal-and-fail' },
+      'failed'
+    );
+
+    expect(status).toBeUndefined();
+    const summary = HealingSummaryBuilder.read(testInfo.outputPath('reports', 'summary.json'));
+    expect(summary.currentRun).toMatchObject({ testsPassedByHealing: 0, successfulHealing: 0, suggestedHealing: 1 });
+    expect(summary).toMatchObject({ successfulHealing: 0, suggestedHealing: 1 });
+    const markdown = fs.readFileSync(testInfo.outputPath('reports', 'summary.md'), 'utf-8');
+    expect(markdown).toContain('### 💡 Suggested, not used (1)');
+    expect(markdown).not.toContain('Healed locators');
+  });
+});
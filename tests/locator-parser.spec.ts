@@ -0,0 +1,71 @@
+import { test, expect } from '@playwright/test';
+import { LocatorParseError, LocatorParser } from '../utils/locator-parser';
+
+test.describe('LocatorParser', () => {
+  test('rejects JavaScript outside the locator grammar', () => {
+    expect(() => LocatorParser.parse("document.querySelector('#email')")).toThrow(LocatorParseError);
+    expect(() => LocatorParser.parse("page.evaluate('fetch(1)')")).toThrow('Unsupported method "evaluate"');
+    expect(() => LocatorParser.parse("locator('#a'); process.exit(1)")).toThrow('Unexpected ";"');
+  });
+
+  test('rejects template literals with expressions', () => {
+    expect(() => LocatorParser.parse('getByText(`${process.env.OPENAI_API_KEY}`)')).toThrow(
+      'Template expressions are not allowed'
+    );
+    expect(LocatorParser.parse('getByText(`Sign in`)')).toEqual([
+      { method: 'getByText', args: [{ type: 'string', value: 'Sign in' }] },
+    ]);
+  });
+
+  test('rejects unknown methods and methods that cannot start a locator', () => {
+    expect(() => LocatorParser.parse("getByRole('button').click()")).toThrow('Unsupported method "click"');
+    expect(() => LocatorParser.parse("locator('li').constructor('x')")).toThrow('Unsupported method "constructor"');
+    expect(() => LocatorParser.parse('nth(0)')).toThrow('"nth" cannot start a locator');
+  });
+
+  test('rejects unknown option keys and wrongly typed options', () => {
+    expect(() => LocatorParser.parse("getByRole('button', { nmae: 'Register' })")).toThrow(
+      'getByRole() does not accept option "nmae"'
+    );
+    expect(() => LocatorParser.parse("getByText('Hi', { __proto__: true })")).toThrow('does not accept option "__proto__"');
+    expect(() => LocatorParser.parse("getByLabel('Email', { exact: 'yes' })")).toThrow(
+      'getByLabel() option "exact" must be boolean'
+    );
+    expect(() => LocatorParser.parse("nth('1')")).toThrow(LocatorParseError);
+  });
+
+  test('round-trips the supported chains', () => {
+    for (const locator of [
+      "getByRole('button', { name: 'Register', exact: true })",
+      "getByRole('heading', { name: /welcome/i, level: 1 })",
+      "locator('li').filter({ hasText: 'Checking' })",
+      "locator('form', { has: getByLabel('First Name') }).filter({ hasText: /name/i }).first()",
+      "getByTestId('row').nth(2)",
+      "getByText('It\\'s done', { exact: true }).last()",
+    ]) {
+      expect(LocatorParser.serialize(LocatorParser.parse(locator))).toBe(locator);
+    }
+  });
+
+  test('normalises page prefixes and quoting', () => {
+    const calls = LocatorParser.parse(`page.getByRole("link", { "name": "Log Out" }).nth(-1)`);
+
+    expect(LocatorParser.serialize(calls)).toBe("getByRole('link', { name: 'Log Out' }).nth(-1)");
+  });
+
+  test('builds the parsed chain on the page', async ({ page }) => {
+    await page.setContent(`
+      <ul>
+        <li>Savings <button>Open</button></li>
+        <li>Checking <button>Open</button></li>
+      </ul>`);
+
+    const locator = LocatorParser.build(
+      page,
+      "locator('li').filter({ hasText: 'Checking' }).getByRole('button', { name: 'Open' })"
+    );
+
+    await expect(locator).toHaveCount(1);
+    await expect(locator.locator('xpath=..')).toContainText('Checking');
+  });
+});
@@ -0,0 +1,67 @@
+import { test, expect } from '@playwright/test';
+import { ElementFingerprint, ElementFingerprinter } from '../utils/element-fingerprint';
+import { LocatorVerifier } from '../utils/locator-verifier';
+
+// Two sibling fields; after the redesign the first one was renamed
+const BEFORE = `
+  <form>
+    <label for="customer.firstName">First Name</label>
+    <input id="customer.firstName" name="customer.firstName" type="text">
+    <label for="customer.lastName">Last Name</label>
+    <input id="customer.lastName" name="customer.lastName" type="text">
+  </form>`;
+
+const AFTER = `
+  <form>
+    <label for="first-name">First Name</label>
+    <input id="first-name" name="firstName" type="text">
+    <label for="customer.lastName">Last Name</label>
+    <input id="customer.lastName" name="customer.lastName" type="text">
+    <button type="button">First Name</button>
+  </form>`;
+
+test.describe('LocatorVerifier', () => {
+  let firstName: ElementFingerprint;
+
+  test.beforeEach(async ({ page }) => {
+    await page.setContent(BEFORE);
+    firstName = (await ElementFingerprinter.capture(page.locator('[id="customer.firstName"]')))!;
+    await page.setContent(AFTER);
+  });
+
+  test('rejects the sibling field with a near-identical id', async ({ page }) => {
+    const result = await new LocatorVerifier().verify(page.locator('[id="customer.lastName"]'), 'fill', firstName);
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toContain('Not the original element');
+    expect(result.reason).toContain('accessibleName');
+  });
+
+  test('accepts the renamed field', async ({ page }) => {
+    const result = await new LocatorVerifier().verify(page.locator('#first-name'), 'fill', firstName);
+
+    expect(result).toMatchObject({ ok: true });
+  });
+
+  test('rejects an element of another kind with the same name', async ({ page }) => {
+    const result = await new LocatorVerifier().verify(page.getByRole('button', { name: 'First Name' }), 'click', firstName);
+
+    expect(result.ok).toBe(false);
+    expect(result.reason).toMatch(/different tag, role/);
+  });
+
+  test('accepts hidden elements only for actions that do not need them visible', async ({ page }) => {
+    await page.setContent(`
+      <label for="avatar" class="button">Upload</label>
+      <input id="avatar" type="file" hidden>`);
+    const avatar = page.locator('#avatar');
+    const verifier = new LocatorVerifier();
+
+    for (const action of ['setInputFiles', 'toBeAttached', 'waitFor:attached', 'waitFor:hidden']) {
+      expect(await verifier.verify(avatar, action), action).toMatchObject({ ok: true });
+    }
+    for (const action of ['click', 'waitFor', 'toBeVisible']) {
+      expect(await verifier.verify(avatar, action), action).toMatchObject({ ok: false, reason: 'Element is not visible' });
+    }
+  });
+});
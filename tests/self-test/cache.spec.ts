@@ -0,0 +1,91 @@
+import { test, expect, PAGES, readCache } from './fixtures';
+import { HealingContext } from '../../utils/healing-fixture';
+
+const TYPO = `locator('[id="customer.lastNmae"]')`;
+const HEALED = `locator('[id="customer.lastName"]')`;
+
+test.describe('healing cache', () => {
+  test('stores a verified healing', async ({ healingPage, stateDir }, testInfo) => {
+    await healingPage.goto(PAGES.registerAfter);
+    await healingPage.fill(TYPO, 'Lovelace');
+
+    expect(readCache(stateDir).list()).toEqual([
+      expect.objectContaining({
+        originalLocator: TYPO,
+        healedLocator: HEALED,
+        healedBy: 'heuristic',
+        testId: testInfo.testId,
+        projectName: testInfo.project.name,
+        hitCount: 0,
+      }),
+    ]);
+    expect(readCache(stateDir).list()[0].urlPattern).toContain('/register/after.html');
+  });
+
+  test('answers from the cache before any other stage', async ({ healingPage, page, stateDir }) => {
+    await healingPage.goto(PAGES.registerAfter);
+    await healingPage.fill(TYPO, 'Lovelace');
+
+    // Provider-less context with the same cache, as a later test would have
+    const later = new HealingContext(null, { stateDir, evidence: false });
+    const result = await later.healLocator(page, 'fill', TYPO, new Error('locator.fill: Timeout 5000ms exceeded.'), 'later test', {
+      errorCategory: 'not-found',
+    });
+
+    expect(result.healed).toBe(true);
+    expect(later.getChanges()[0]).toMatchObject({ healedLocator: HEALED, healedBy: 'cache', provider: 'cache' });
+    expect(readCache(stateDir).list()[0].hitCount).toBe(1);
+  });
+
+  test('drops an entry that no longer verifies and heals again', async ({ healingPage, healingContext, page, stateDir }, testInfo) => {
+    await page.goto(PAGES.registerAfter);
+    await readCache(stateDir).record(
+      { originalLocator: TYPO, url: page.url(), testId: testInfo.testId, projectName: testInfo.project.name },
+      "locator('#last-name')",
+      'ai',
+      0.8
+    );
+
+    await healingPage.goto(PAGES.registerAfter);
+    await healingPage.fill(TYPO, 'Lovelace');
+
+    await expect(page.locator('[id="customer.lastName"]')).toHaveValue('Lovelace');
+    const [change] = healingContext.getChanges();
+    expect(change.attempts![0]).toMatchObject({
+      locator: "locator('#last-name')",
+      source: 'cache',
+      outcome: 'rejected',
+      reason: 'No matching element',
+    });
+    expect(change).toMatchObject({ healedLocator: HEALED, healedBy: 'heuristic' });
+    expect(readCache(stateDir).list()).toEqual([expect.objectContaining({ originalLocator: TYPO, healedLocator: HEALED })]);
+  });
+
+  test('suggests a cached locator under report-only without counting a hit', async ({ healingPage, page, stateDir }) => {
+    await healingPage.goto(PAGES.registerAfter);
+    await healingPage.fill(TYPO, 'Lovelace');
+    const { lastVerifiedAt } = readCache(stateDir).list()[0];
+
+    const reportOnly = new HealingContext(null, { stateDir, evidence: false, policy: 'report-only' });
+    const result = await reportOnly.healLocator(page, 'fill', TYPO, new Error('locator.fill: Timeout 5000ms exceeded.'), 'later test', {
+      errorCategory: 'not-found',
+    });
+
+    expect(result.healed).toBe(false);
+    expect(reportOnly.getChanges()[0]).toMatchObject({ healedLocator: HEALED, healedBy: 'cache', applied: false });
+    expect(readCache(stateDir).list()[0]).toMatchObject({ hitCount: 0, lastVerifiedAt });
+  });
+
+  test('is not used with cache: false', async ({ healingPage, page, stateDir }) => {
+    await healingPage.goto(PAGES.registerAfter);
+    await healingPage.fill(TYPO, 'Lovelace');
+
+    const uncached = new HealingContext(null, { stateDir, cache: false, evidence: false });
+    await uncached.healLocator(page, 'fill', TYPO, new Error('locator.fill: Timeout 5000ms exceeded.'), 'uncached test', {
+      errorCategory: 'not-found',
+    });
+
+    expect(uncached.getChanges()[0]).toMatchObject({ healedLocator: HEALED, healedBy: 'heuristic' });
+    expect(readCache(stateDir).list()[0].hitCount).toBe(0);
+  });
+});
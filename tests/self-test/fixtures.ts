@@ -0,0 +1,42 @@
+import * as path from 'path';
+import { test as base } from '../../utils/healing-fixture';
+import { HealingCache } from '../../utils/healing-cache';
+
+export { expect } from '../../utils/healing-fixture';
+
+/**
+ * Pages of the fixture site (tests/fixtures/site). The self-tests' locators
+ * were written for the "before" versions; the "after" versions break them.
+ */
+export const PAGES = {
+  registerBefore: '/register/before.html',
+  registerAfter: '/register/after.html',
+  settingsBefore: '/settings/before.html',
+  settingsAfter: '/settings/after.html',
+};
+
+type SelfTestFixtures = {
+  /** This test's healing cache and element fingerprints */
+  stateDir: string;
+};
+
+/**
+ * The healing fixtures with a state directory per test, so tests see neither
+ * each other's healings nor the project's .healing/
+ */
+export const test = base.extend<SelfTestFixtures>({
+  stateDir: async ({}, use, testInfo) => {
+    await use(testInfo.outputPath('.healing'));
+  },
+
+  healingOptions: async ({ healingOptions, stateDir }, use) => {
+    await use({ ...healingOptions, stateDir });
+  },
+});
+
+/**
+ * The test's healing cache as it is on disk now
+ */
+export function readCache(stateDir: string): HealingCache {
+  return new HealingCache(path.join(stateDir, 'cache.json'));
+}
@@ -0,0 +1,96 @@
+import { test, expect, PAGES } from './fixtures';
+
+test.describe('heals', () => {
+  test('a renamed id, using the fingerprint from the page before the change', async ({ healingPage, healingContext, page }) => {
+    await healingPage.goto(PAGES.registerBefore);
+    await healingPage.fill(`locator('[id="customer.firstName"]')`, 'Ada');
+    expect(healingContext.getChanges()).toHaveLength(0);
+
+    await healingPage.goto(PAGES.registerAfter);
+    await healingPage.fill(`locator('[id="customer.firstName"]')`, 'Ada');
+
+    await expect(page.locator('#first-name')).toHaveValue('Ada');
+    const [change] = healingContext.getChanges();
+    expect(change).toMatchObject({
+      success: true,
+      originalLocator: `locator('[id="customer.firstName"]')`,
+      errorCategory: 'not-found',
+      action: 'fill',
+      trigger: 'action',
+      applied: true,
+    });
+    expect(change.pageUrl).toContain(PAGES.registerAfter);
+  });
+
+  test('a typo in an id without asking the provider', async ({ healingPage, healingContext, page }) => {
+    await healingPage.goto(PAGES.registerAfter);
+    await healingPage.fill(`locator('[id="customer.lastNmae"]')`, 'Lovelace');
+
+    await expect(page.locator('[id="customer.lastName"]')).toHaveValue('Lovelace');
+    expect(healingContext.getChanges()[0]).toMatchObject({
+      success: true,
+      healedLocator: `locator('[id="customer.lastName"]')`,
+      healedBy: 'heuristic',
+    });
+  });
+
+  test('a changed label, with the suggestion the provider gave', async ({ healingPage, healingContext, page }) => {
+    await healingPage.goto(PAGES.registerAfter);
+    await healingPage.fill("getByLabel('Zip Code')", '10115');
+
+    await expect(page.locator('#postal-code')).toHaveValue('10115');
+    const [change] = healingContext.getChanges();
+    expect(change).toMatchObject({
+      success: true,
+      healedLocator: "getByLabel('Postal code')",
+      healedBy: 'ai',
+      provider: 'local/stub',
+    });
+    expect(change.attempts).toEqual([
+      expect.objectContaining({
+        locator: "getByPlaceholder('Zip Code')",
+        source: 'ai',
+        outcome: 'rejected',
+        reason: 'No matching element',
+      }),
+      expect.objectContaining({
+        locator: "getByLabel('Postal code')",
+        source: 'ai',
+        outcome: 'accepted',
+        strategy: 'label',
+        confidence: 0.9,
+        rationale: 'Zip Code was relabelled Postal code',
+      }),
+    ]);
+  });
+
+  test('a moved button', async ({ healingPage, healingContext, page }) => {
+    await healingPage.goto(PAGES.registerBefore);
+    expect(await healingPage.isVisible("locator('#register-button')")).toBe(true);
+
+    await healingPage.goto(PAGES.registerAfter);
+    await page.fill('#first-name', 'Ada');
+    await page.fill('[id="customer.lastName"]', 'Lovelace');
+    await page.fill('#postal-code', '10115');
+    await healingPage.click("locator('#register-button')");
+
+    await expect(page.getByRole('status')).toHaveText('Registered Ada Lovelace 10115');
+    expect(healingContext.getChanges()[0]).toMatchObject({ success: true, originalLocator: "locator('#register-button')" });
+  });
+
+  test('a locator that now matches duplicated elements', async ({ healingPage, healingContext, page }) => {
+    await healingPage.goto(PAGES.settingsBefore);
+    await healingPage.click("locator('button.save')");
+    await expect(page.getByRole('status')).toHaveText('Settings saved');
+
+    await healingPage.goto(PAGES.settingsAfter);
+    await healingPage.click("locator('button.save')");
+
+    await expect(page.getByRole('status')).toHaveText('Settings saved');
+    expect(healingContext.getChanges()[0]).toMatchObject({
+      success: true,
+      originalLocator: "locator('button.save')",
+      errorCategory: 'strict-mode-violation',
+    });
+  });
+});
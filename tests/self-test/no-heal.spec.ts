@@ -0,0 +1,56 @@
+import { test, expect, PAGES, readCache } from './fixtures';
+
+test.describe('does not heal', () => {
+  test('an element that was removed, and fails with the original error', async ({ healingPage, healingContext }) => {
+    await healingPage.goto(PAGES.settingsAfter);
+
+    await expect(healingPage.click("locator('#delete-account')")).rejects.toThrow(/locator\.click: Timeout/);
+
+    const [change] = healingContext.getChanges();
+    expect(change).toMatchObject({
+      success: false,
+      originalLocator: "locator('#delete-account')",
+      errorCategory: 'not-found',
+      provider: 'local/stub',
+    });
+  });
+
+  test('a disabled element, which is not a locator failure', async ({ healingPage, healingContext }) => {
+    await healingPage.goto(PAGES.settingsAfter);
+
+    await expect(healingPage.click("locator('#export')")).rejects.toThrow(/not enabled/);
+
+    expect(healingContext.getChanges()).toHaveLength(0);
+  });
+
+  test('a locator that still works', async ({ healingPage, healingContext, page }) => {
+    await healingPage.goto(PAGES.settingsAfter);
+    await healingPage.fill("locator('#display-name')", 'Ada');
+
+    await expect(page.locator('#display-name')).toHaveValue('Ada');
+    expect(healingContext.getChanges()).toHaveLength(0);
+  });
+});
+
+const reportOnly = test.extend({
+  healingOptions: async ({ healingOptions }, use) => {
+    await use({ ...healingOptions, policy: 'report-only' });
+  },
+});
+
+reportOnly.describe('under report-only', () => {
+  reportOnly('records the healed locator and fails with the original error', async ({ healingPage, healingContext, page, stateDir }) => {
+    await healingPage.goto(PAGES.registerAfter);
+
+    await expect(healingPage.fill(`locator('[id="customer.lastNmae"]')`, 'Lovelace')).rejects.toThrow(/Timeout/);
+
+    await expect(page.locator('[id="customer.lastName"]')).toHaveValue('');
+    expect(healingContext.getChanges()[0]).toMatchObject({
+      success: true,
+      healedLocator: `locator('[id="customer.lastName"]')`,
+      policy: 'report-only',
+      applied: false,
+    });
+    expect(readCache(stateDir).list()).toHaveLength(0);
+  });
+});
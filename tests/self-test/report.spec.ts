@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import { test, expect, PAGES } from './fixtures';
+import { HealingSummaryBuilder } from '../../utils/healing-summary';
+
+const TYPO = `locator('[id="customer.lastNmae"]')`;
+
+test.describe('healing records', () => {
+  test('describe the healing, where it happened and its evidence', async ({ healingPage, healingContext }, testInfo) => {
+    await healingPage.goto(PAGES.registerAfter);
+    await healingPage.fill(TYPO, 'Lovelace');
+
+    const [change] = healingContext.getChanges();
+    expect(change).toMatchObject({
+      testName: testInfo.title,
+      testId: testInfo.testId,
+      projectName: 'chromium',
+      retry: 0,
+      action: 'fill',
+      trigger: 'action',
+      policy: 'heal',
+      applied: true,
+      location: { file: 'tests/self-test/report.spec.ts' },
+      testLocation: { file: 'tests/self-test/report.spec.ts', line: testInfo.line },
+    });
+    expect(change.id).toBeTruthy();
+    expect(Date.parse(change.timestamp)).not.toBeNaN();
+    expect(change.pageUrl).toContain(PAGES.registerAfter);
+    expect(change.attemptedLocators).toContain(change.healedLocator);
+    expect(change.evidence!.map(e => e.kind)).toEqual(['before', 'after', 'dom']);
+    expect(change.domSnippet).toContain('data-healed-target');
+    expect(change.domSnippet).toContain('customer.lastName');
+  });
+
+  test('name the evidence files attached to the test', async ({ healingPage, healingContext }) => {
+    await healingPage.goto(PAGES.registerAfter);
+    await healingPage.fill(TYPO, 'Lovelace');
+
+    const attachments = healingContext.getEvidenceFiles().map(file => file.name);
+    expect(attachments).toEqual(healingContext.getChanges()[0].evidence!.map(e => e.attachment));
+  });
+});
+
+test.describe('healing report', () => {
+  test('lists healed and unhealed locators', async ({ healingPage, healingContext }, testInfo) => {
+    await healingPage.goto(PAGES.registerAfter);
+    await healingPage.fill(TYPO, 'Lovelace');
+    await healingPage.goto(PAGES.settingsAfter);
+    await expect(healingPage.click("locator('#delete-account')")).rejects.toThrow(/Timeout/);
+
+    const summary = HealingSummaryBuilder.build(healingContext.getChanges(), []);
+    expect(summary).toMatchObject({ totalHealing: 2, successfulHealing: 1, failedHealing: 1 });
+
+    const { htmlPath, markdownPath } = HealingSummaryBuilder.write(summary, testInfo.outputPath('summary.json'));
+    expect(HealingSummaryBuilder.read(testInfo.outputPath('summary.json')).changes).toHaveLength(2);
+
+    const html = fs.readFileSync(htmlPath, 'utf-8');
+    expect(html).toContain('customer.lastNmae');
+    expect(html).toContain('customer.lastName');
+    expect(html).toContain('#delete-account');
+    expect(html).toContain('SUCCESS');
+    expect(html).toContain('FAILED');
+
+    const markdown = fs.readFileSync(markdownPath, 'utf-8');
+    expect(markdown).toContain('### ✓ Healed locators (1)');
+    expect(markdown).toContain('### ✗ Could not heal (1)');
+    expect(markdown).toContain('#delete-account');
+  });
+});
@@ -0,0 +1,154 @@
+import Anthropic from '@anthropic-ai/sdk';
+import * as fs from 'fs';
+import { LocatorSuggestion, LocatorSuggestionProvider, LocatorSuggestionRequest } from './locator-suggestion-provider';
+import {
+  LOCATOR_SUGGESTIONS_SCHEMA,
+  LOCATOR_SYSTEM_PROMPT,
+  SCREENSHOT_SYSTEM_PROMPT,
+  buildLocatorPrompt,
+  buildScreenshotPrompt,
+  parseLocatorSuggestions,
+} from './locator-prompts';
+
+export interface AnthropicServiceOptions {
+  apiKey: string;
+  model?: string;
+  baseURL?: string;
+  /** Force a tool call whose input matches LOCATOR_SUGGESTIONS_SCHEMA (default: true) */
+  structuredOutput?: boolean;
+}
+
+const SUGGESTION_TOOL = 'suggest_locators';
+
+export class AnthropicService implements LocatorSuggestionProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+  private client: Anthropic;
+  private structuredOutput: boolean;
+
+  constructor(options: AnthropicServiceOptions) {
+    this.model = options.model || 'claude-sonnet-4-5';
+    this.structuredOutput = options.structuredOutput ?? true;
+
+    console.log('   🔌 Initializing Anthropic client...');
+    this.client = new Anthropic({ apiKey: options.apiKey, baseURL: options.baseURL });
+    console.log(`   ✓ Anthropic client initialized (model: ${this.model})`);
+  }
+
+  /**
+   * Suggests alternative locators based on the page HTML and error context
+   */
+  async suggestLocator(request: LocatorSuggestionRequest): Promise<LocatorSuggestion[]> {
+    try {
+      console.log(`   📡 Calling Anthropic API (${this.model})...`);
+      const response = await this.client.messages.create({
+        model: this.model,
+        system: LOCATOR_SYSTEM_PROMPT,
+        messages: [
+          {
+            role: 'user',
+            content: buildLocatorPrompt(request),
+          },
+        ],
+        temperature: 0.3,
+        max_tokens: 800,
+        ...this.toolParams(),
+      });
+      console.log('   ✓ Anthropic API responded');
+
+      return this.parse(response);
+    } catch (error) {
+      console.error('   ✗ Anthropic API error:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  /**
+   * Sends the screenshot as an image block to help identify elements
+   */
+  async analyzeScreenshotForLocator(
+    screenshotPath: string,
+    failedLocator: string,
+    errorMessage: string
+  ): Promise<LocatorSuggestion[]> {
+    if (!fs.existsSync(screenshotPath)) {
+      console.error('Screenshot not found:', screenshotPath);
+      return [];
+    }
+
+    const base64Image = fs.readFileSync(screenshotPath).toString('base64');
+
+    try {
+      const response = await this.client.messages.create({
+        model: this.model,
+        system: SCREENSHOT_SYSTEM_PROMPT,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'image',
+                source: {
+                  type: 'base64',
+                  media_type: 'image/png',
+                  data: base64Image,
+                },
+              },
+              {
+                type: 'text',
+                text: buildScreenshotPrompt(failedLocator, errorMessage),
+              },
+            ],
+          },
+        ],
+        temperature: 0.3,
+        max_tokens: 800,
+        ...this.toolParams(),
+      });
+
+      return this.parse(response);
+    } catch (error) {
+      console.error('Anthropic Vision API error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Forcing the tool makes the reply a tool_use block whose input follows the
+   * suggestion schema
+   */
+  private toolParams(): Pick<Anthropic.MessageCreateParamsNonStreaming, 'tools' | 'tool_choice'> {
+    if (!this.structuredOutput) return {};
+    return {
+      tools: [
+        {
+          name: SUGGESTION_TOOL,
+          description: 'Report alternative Playwright locators for the failed one, best first',
+          input_schema: LOCATOR_SUGGESTIONS_SCHEMA as Anthropic.Tool.InputSchema,
+        },
+      ],
+      tool_choice: { type: 'tool', name: SUGGESTION_TOOL },
+    };
+  }
+
+  private parse(response: Anthropic.Message): LocatorSuggestion[] {
+    const toolUse = response.content.find(block => block.type === 'tool_use' && block.name === SUGGESTION_TOOL);
+    const reply = toolUse && toolUse.type === 'tool_use' ? toolUse.input : this.extractText(response);
+    const suggestions = parseLocatorSuggestions(reply);
+    if (suggestions.length === 0) {
+      console.log(`   ⚠ No locators found in the Anthropic reply: ${JSON.stringify(reply).slice(0, 200)}`);
+    }
+    return suggestions;
+  }
+
+  private extractText(response: Anthropic.Message): string {
+    const text = response.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('')
+      .trim();
+    if (!text) {
+      throw new Error('No response from Anthropic');
+    }
+    return text;
+  }
+}
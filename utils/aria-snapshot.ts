@@ -0,0 +1,55 @@
+import { Page } from '@playwright/test';
+import { CHARS_PER_TOKEN, estimateTokens } from './dom-condenser';
+
+export interface AriaSnapshot {
+  /** Playwright's YAML accessibility snapshot, e.g. `- button "Register"` */
+  snapshot: string;
+  originalLength: number;
+  estimatedTokens: number;
+  /** Some lines did not fit in the token budget */
+  truncated: boolean;
+}
+
+export interface AriaSnapshotterOptions {
+  /** Upper bound for the snapshot, in estimated tokens (default: 3000) */
+  tokenBudget?: number;
+}
+
+/**
+ * Captures the page's accessibility tree (roles, accessible names, states) for
+ * the prompt, so getByRole/getByLabel suggestions use pairs that exist
+ */
+export class AriaSnapshotter {
+  private tokenBudget: number;
+
+  constructor(options: AriaSnapshotterOptions = {}) {
+    this.tokenBudget = options.tokenBudget ?? 3000;
+  }
+
+  async capture(page: Page): Promise<AriaSnapshot> {
+    return this.fit(await page.locator('body').ariaSnapshot({ timeout: 5000 }));
+  }
+
+  /**
+   * Keeps whole lines up to the budget; the snapshot is in page order
+   */
+  fit(snapshot: string): AriaSnapshot {
+    const maxLength = this.tokenBudget * CHARS_PER_TOKEN;
+    const kept: string[] = [];
+    let length = 0;
+    for (const line of snapshot.split('\n')) {
+      if (length + line.length + 1 > maxLength) break;
+      kept.push(line);
+      length += line.length + 1;
+    }
+
+    const truncated = length < snapshot.length;
+    const fitted = truncated ? `${kept.join('\n')}\n# ... [snapshot truncated]` : snapshot;
+    return {
+      snapshot: fitted,
+      originalLength: snapshot.length,
+      estimatedTokens: estimateTokens(fitted),
+      truncated,
+    };
+  }
+}
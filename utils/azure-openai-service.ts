@@ -0,0 +1,33 @@
+import { AzureOpenAI } from 'openai';
+import { OpenAIService } from './openai-service';
+
+export interface AzureOpenAIServiceOptions {
+  apiKey: string;
+  /** e.g. https://my-resource.openai.azure.com/ */
+  endpoint: string;
+  /** Name of the model deployment; used as the model in requests */
+  deployment: string;
+  apiVersion?: string;
+  /** Structured outputs need api-version 2024-08-01-preview or later (default: true) */
+  structuredOutput?: boolean;
+}
+
+/**
+ * Azure OpenAI speaks the chat-completions protocol, so it reuses the OpenAI
+ * implementation with an Azure-configured client.
+ */
+export class AzureOpenAIService extends OpenAIService {
+  constructor(options: AzureOpenAIServiceOptions) {
+    super({
+      name: 'azure-openai',
+      model: options.deployment,
+      structuredOutput: options.structuredOutput,
+      client: new AzureOpenAI({
+        apiKey: options.apiKey,
+        endpoint: options.endpoint,
+        deployment: options.deployment,
+        apiVersion: options.apiVersion || '2024-10-21',
+      }),
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import * as path from 'path';
+
+export interface SourceLocation {
+  /** Path relative to the working directory, with forward slashes */
+  file: string;
+  line: number;
+  column: number;
+}
+
+// Matches "at fn (/path/file.ts:1:2)" and anonymous frames like "at /path/file.ts:1:2"
+const FRAME_PATTERN = /(?:\(|at )((?:file:\/\/)?(?:[A-Za-z]:)?[^():]+):(\d+):(\d+)\)?\s*$/;
+
+export class CallSite {
+  /**
+   * Finds the first stack frame outside the healing framework and node_modules,
+   * i.e. the line in the spec (or page object) that called HealingPage.
+   * Must be called synchronously from the public API, before any await.
+   */
+  static capture(frameworkDir: string = __dirname): SourceLocation | undefined {
+    // expect() matchers run a few Playwright frames deep, past the default limit of 10
+    const stackTraceLimit = Error.stackTraceLimit;
+    Error.stackTraceLimit = 50;
+    const stack = new Error().stack || '';
+    Error.stackTraceLimit = stackTraceLimit;
+
+    for (const frame of stack.split('\n').slice(1)) {
+      const match = frame.match(FRAME_PATTERN);
+      if (!match) continue;
+
+      const file = match[1].replace(/^file:\/\//, '');
+      if (!path.isAbsolute(file)) continue;
+      if (file.startsWith(frameworkDir + path.sep) || file.includes(`${path.sep}node_modules${path.sep}`)) {
+        continue;
+      }
+
+      return {
+        file: path.relative(process.cwd(), file).split(path.sep).join('/'),
+        line: Number(match[2]),
+        column: Number(match[3]),
+      };
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,241 @@
+import { Page } from '@playwright/test';
+
+/**
+ * One kept element, rendered as a single line of simplified HTML
+ */
+export interface CondensedElement {
+  /** Nearest form, dialog or landmark, e.g. `form#register` (or "body") */
+  region: string;
+  /** Simplified HTML, e.g. <input id="email" name="email" placeholder="Email"> */
+  html: string;
+  /** Lower-cased text and attribute values, matched against the failed locator */
+  terms: string;
+}
+
+export interface CondensedDom {
+  html: string;
+  originalLength: number;
+  /** Rough token count of `html` (4 characters per token) */
+  estimatedTokens: number;
+  elements: number;
+  regions: number;
+  /** Some regions did not fit in the token budget */
+  truncated: boolean;
+}
+
+export interface DomCondenserOptions {
+  /** Upper bound for the condensed HTML, in estimated tokens (default: 3000) */
+  tokenBudget?: number;
+}
+
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Rough token count for prompt budgets; close enough for English and HTML
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Shrinks a page to its interactive and labelled elements before it is sent to
+ * a model. Scripts, styles, SVG and hidden nodes are dropped, elements are
+ * grouped by form or landmark, and the group that shares the most words with
+ * the failed locator goes first, so the target survives the token budget.
+ */
+export class DomCondenser {
+  private tokenBudget: number;
+
+  constructor(options: DomCondenserOptions = {}) {
+    this.tokenBudget = options.tokenBudget ?? 3000;
+  }
+
+  async condense(page: Page, failedLocator: string): Promise<CondensedDom> {
+    const content = await page.content();
+    const elements = await page.evaluate(extractElements);
+    if (elements.length === 0) {
+      return this.truncate(content);
+    }
+    return this.condenseElements(elements, failedLocator, content.length);
+  }
+
+  condenseElements(elements: CondensedElement[], failedLocator: string, originalLength: number): CondensedDom {
+    const terms = DomCondenser.locatorTerms(failedLocator);
+    const score = (element: CondensedElement) => terms.filter(term => element.terms.includes(term)).length;
+
+    // Regions in document order, then by relevance; ties keep page order
+    const regions = new Map<string, CondensedElement[]>();
+    for (const element of elements) {
+      regions.set(element.region, [...(regions.get(element.region) || []), element]);
+    }
+    const ranked = [...regions.entries()]
+      .map(([region, members], index) => {
+        const scores = members.map(score);
+        return { region, members, index, relevance: Math.max(0, ...scores) + scores.reduce((a, b) => a + b, 0) / 10 };
+      })
+      .sort((a, b) => b.relevance - a.relevance || a.index - b.index);
+
+    const maxLength = this.tokenBudget * CHARS_PER_TOKEN;
+    const blocks: string[] = [];
+    let length = 0;
+    let truncated = false;
+
+    for (const { region, members } of ranked) {
+      const lines = [`<!-- ${region} -->`];
+      for (const member of members) {
+        if (length + lines.join('\n').length + member.html.length + 1 > maxLength) {
+          truncated = true;
+          break;
+        }
+        lines.push(member.html);
+      }
+      if (lines.length === 1) break;
+
+      const block = lines.join('\n');
+      blocks.push(block);
+      length += block.length + 1;
+      if (truncated) break;
+    }
+
+    const html = blocks.join('\n');
+    return {
+      html,
+      originalLength,
+      estimatedTokens: estimateTokens(html),
+      elements: blocks.reduce((total, block) => total + block.split('\n').length - 1, 0),
+      regions: blocks.length,
+      truncated: truncated || blocks.length < ranked.length,
+    };
+  }
+
+  /**
+   * Pages without any kept element (e.g. a canvas app): the HTML without
+   * scripts, styles and SVG, cut to the budget
+   */
+  truncate(content: string): CondensedDom {
+    const stripped = content
+      .replace(/<(script|style|svg|noscript|template)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/\s+/g, ' ');
+    const maxLength = this.tokenBudget * CHARS_PER_TOKEN;
+    const html = stripped.length > maxLength ? `${stripped.slice(0, maxLength)}\n... [HTML truncated]` : stripped;
+    return {
+      html,
+      originalLength: content.length,
+      estimatedTokens: estimateTokens(html),
+      elements: 0,
+      regions: 0,
+      truncated: stripped.length > maxLength,
+    };
+  }
+
+  /**
+   * Words of the failed locator worth matching, without method names and option
+   * keys, e.g. "#customer\.firstName" → customer, first, name
+   */
+  static locatorTerms(locator: string): string[] {
+    const words = locator
+      .replace(/\b[A-Za-z]+\s*\(/g, ' ')
+      .replace(/\b[A-Za-z]+\s*:/g, ' ')
+      .replace(/\b(true|false)\b/g, ' ')
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length >= 2);
+    return [...new Set(words)];
+  }
+}
+
+/**
+ * Runs in the browser; must stay self-contained because Playwright serialises it
+ */
+function extractElements(): CondensedElement[] {
+  const SKIPPED = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'svg', 'CANVAS', 'IFRAME', 'LINK', 'META', 'HEAD']);
+  const INTERACTIVE = new Set(['A', 'BUTTON', 'INPUT', 'SELECT', 'TEXTAREA', 'LABEL', 'SUMMARY']);
+  const LABELLING = new Set(['H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'LEGEND', 'TH', 'CAPTION', 'IMG']);
+  const REGIONS = new Set(['FORM', 'FIELDSET', 'DIALOG', 'NAV', 'MAIN', 'HEADER', 'FOOTER', 'ASIDE', 'SECTION', 'TABLE']);
+  const ATTRIBUTES = ['id', 'name', 'type', 'role', 'aria-label', 'placeholder', 'title', 'alt', 'for', 'href', 'value',
+    'data-testid', 'data-test', 'data-test-id', 'data-qa', 'data-cy'];
+
+  const clean = (text: string | null | undefined, max: number) => {
+    const value = (text || '').replace(/\s+/g, ' ').trim();
+    return value.length > max ? `${value.slice(0, max)}…` : value;
+  };
+  const quote = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+  const isHidden = (el: Element) => {
+    if (el.hasAttribute('hidden') || el.getAttribute('aria-hidden') === 'true') return true;
+    if (el.tagName === 'INPUT' && (el as HTMLInputElement).type === 'hidden') return true;
+    const style = getComputedStyle(el);
+    return style.display === 'none' || style.visibility === 'hidden';
+  };
+
+  const isKept = (el: Element) =>
+    INTERACTIVE.has(el.tagName) ||
+    LABELLING.has(el.tagName) ||
+    el.hasAttribute('role') ||
+    el.hasAttribute('aria-label') ||
+    el.hasAttribute('tabindex') ||
+    el.hasAttribute('contenteditable') ||
+    el.hasAttribute('onclick') ||
+    ATTRIBUTES.slice(ATTRIBUTES.indexOf('data-testid')).some(name => el.hasAttribute(name));
+
+  const regionName = (el: Element) => {
+    const tag = el.tagName.toLowerCase();
+    const id = el.id ? `#${el.id}` : '';
+    const name = el.getAttribute('name') || el.getAttribute('aria-label') || '';
+    return `${tag}${id}${name ? `[${clean(name, 40)}]` : ''}`;
+  };
+
+  // Own text only, so a form does not repeat the text of every field
+  const ownText = (el: Element) =>
+    clean(
+      Array.from(el.childNodes)
+        .filter(node => node.nodeType === Node.TEXT_NODE)
+        .map(node => node.textContent)
+        .join(' ') || (el.children.length === 0 ? el.textContent : ''),
+      80
+    );
+
+  const elements: CondensedElement[] = [];
+  const regionCounts = new Map<string, number>();
+
+  const walk = (el: Element, region: string) => {
+    if (SKIPPED.has(el.tagName) || isHidden(el)) return;
+
+    let current = region;
+    if (REGIONS.has(el.tagName) || el.getAttribute('role') === 'dialog') {
+      const name = regionName(el);
+      const count = (regionCounts.get(name) || 0) + 1;
+      regionCounts.set(name, count);
+      current = count > 1 ? `${name} (${count})` : name;
+    }
+
+    if (isKept(el)) {
+      const tag = el.tagName.toLowerCase();
+      const attributes = ATTRIBUTES
+        .filter(name => el.hasAttribute(name))
+        .map(name => `${name}="${quote(clean(el.getAttribute(name), 80))}"`);
+      // A select lists its first options instead of one line per option
+      const text = el.tagName === 'SELECT'
+        ? clean(Array.from((el as HTMLSelectElement).options).map(option => option.text).join(' | '), 80)
+        : INTERACTIVE.has(el.tagName) || LABELLING.has(el.tagName)
+          ? clean(el.textContent, 80)
+          : ownText(el);
+      const html = `<${[tag, ...attributes].join(' ')}>${quote(text)}${text ? `</${tag}>` : ''}`;
+      const terms = [text, ...ATTRIBUTES.map(name => el.getAttribute(name) || '')]
+        .join(' ')
+        .replace(/([a-z])([A-Z])/g, '$1 $2')
+        .toLowerCase();
+      elements.push({ region: current, html, terms });
+    }
+
+    if (el.tagName === 'SELECT') return;
+    for (const child of Array.from(el.children)) {
+      walk(child, current);
+    }
+  };
+
+  if (document.body) walk(document.body, 'body');
+  return elements;
+}
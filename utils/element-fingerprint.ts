@@ -0,0 +1,265 @@
+import { Locator } from '@playwright/test';
+import { TextSimilarity } from './text-similarity';
+
+/**
+ * Identifying traits of a DOM element, used to rank healing candidates and
+ * to check that a healed locator points at the element the test meant
+ */
+export interface ElementFingerprint {
+  tag: string;
+  type: string;
+  role: string;
+  id: string;
+  name: string;
+  testId: string;
+  placeholder: string;
+  ariaLabel: string;
+  labelText: string;
+  accessibleName: string;
+  text: string;
+  nearbyText: string;
+  classes: string[];
+  /** Other attributes (style and event handlers left out), values trimmed */
+  attributes: { [name: string]: string };
+  boundingBox: { x: number; y: number; width: number; height: number } | null;
+  /** Up to five ancestors, nearest last, e.g. "form#customerForm > table > tbody > tr:nth-of-type(1) > td:nth-of-type(2)" */
+  ancestorPath: string;
+  editable: boolean;
+  visible: boolean;
+}
+
+// Fields that name the element to the user; a different name means a different element
+const NAMING_FIELDS = ['accessibleName', 'labelText'] as const;
+
+// Field weights for fingerprint comparison; fields empty in the expected fingerprint are skipped
+const FIELD_WEIGHTS: { [field: string]: number } = {
+  tag: 3,
+  role: 2,
+  type: 1,
+  id: 2,
+  name: 2,
+  testId: 2,
+  accessibleName: 2,
+  labelText: 1,
+  placeholder: 1,
+  text: 1,
+  nearbyText: 1,
+  classes: 1,
+  ancestorPath: 1,
+};
+
+export class ElementFingerprinter {
+  /**
+   * Fingerprints every element the locator matches, in DOM order
+   */
+  static async captureAll(locator: Locator): Promise<ElementFingerprint[]> {
+    return await locator.evaluateAll(describeElements);
+  }
+
+  /**
+   * Fingerprints the first element the locator matches, or null if there is none
+   */
+  static async capture(locator: Locator): Promise<ElementFingerprint | null> {
+    const [fingerprint] = await ElementFingerprinter.captureAll(locator.first());
+    return fingerprint ?? null;
+  }
+
+  /**
+   * Weighted similarity in [0, 1] plus the fields that clearly differ
+   */
+  static compare(
+    expected: ElementFingerprint,
+    actual: ElementFingerprint
+  ): { score: number; mismatches: string[] } {
+    let total = 0;
+    let weight = 0;
+    const mismatches: string[] = [];
+
+    for (const [field, fieldWeight] of Object.entries(FIELD_WEIGHTS)) {
+      const expectedValue = ElementFingerprinter.fieldText(expected, field);
+      if (!expectedValue) continue;
+
+      const actualValue = ElementFingerprinter.fieldText(actual, field);
+      const similarity = TextSimilarity.similarity(expectedValue, actualValue);
+      total += similarity * fieldWeight;
+      weight += fieldWeight;
+      if (similarity < 0.8) {
+        mismatches.push(field);
+      }
+    }
+
+    return { score: weight > 0 ? total / weight : 0, mismatches };
+  }
+
+  /**
+   * Naming fields both fingerprints have but that disagree, e.g. a "Last Name"
+   * field where the recorded element was labelled "First Name"
+   */
+  static namingConflicts(expected: ElementFingerprint, actual: ElementFingerprint): string[] {
+    return NAMING_FIELDS.filter(
+      field => expected[field] && actual[field] && TextSimilarity.similarity(expected[field], actual[field]) < 0.8
+    );
+  }
+
+  /**
+   * Compact JSON for the model prompt's "Element Context"; leaves out empty fields
+   */
+  static toPromptContext(fingerprint: ElementFingerprint): string {
+    const { visible, editable, ...rest } = fingerprint;
+    const context = Object.fromEntries(
+      Object.entries(rest).filter(([, value]) => {
+        if (Array.isArray(value)) return value.length > 0;
+        if (value && typeof value === 'object') return Object.keys(value).length > 0;
+        return !!value;
+      })
+    );
+    return `The element this locator used to find looked like: ${JSON.stringify(context)}`;
+  }
+
+  private static fieldText(fingerprint: ElementFingerprint, field: string): string {
+    const value = fingerprint[field as keyof ElementFingerprint];
+    if (Array.isArray(value)) return value.join(' ');
+    return typeof value === 'string' ? value : '';
+  }
+
+  /**
+   * Short human-readable form, e.g. <input type="text" id="customer.firstName" role="textbox">
+   */
+  static describe(fingerprint: ElementFingerprint): string {
+    const attributes = (['type', 'id', 'name', 'role'] as const)
+      .filter(key => fingerprint[key])
+      .map(key => `${key}="${fingerprint[key]}"`);
+    return `<${[fingerprint.tag, ...attributes].join(' ')}>`;
+  }
+}
+
+/**
+ * Runs in the browser; must stay self-contained because Playwright serialises it
+ */
+function describeElements(elements: Element[]): ElementFingerprint[] {
+  const clean = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim().slice(0, 80);
+
+  const implicitRole = (el: Element): string => {
+    const explicit = el.getAttribute('role');
+    if (explicit) return explicit;
+    const tag = el.tagName.toLowerCase();
+    const type = (el.getAttribute('type') || 'text').toLowerCase();
+    if (tag === 'button') return 'button';
+    if (/^h[1-6]$/.test(tag)) return 'heading';
+    if (tag === 'a' && el.hasAttribute('href')) return 'link';
+    if (tag === 'textarea') return 'textbox';
+    if (tag === 'select') return (el as HTMLSelectElement).multiple ? 'listbox' : 'combobox';
+    if (tag === 'input') {
+      if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+      if (type === 'checkbox') return 'checkbox';
+      if (type === 'radio') return 'radio';
+      if (type === 'number') return 'spinbutton';
+      if (type === 'range') return 'slider';
+      if (type === 'search') return 'searchbox';
+      return 'textbox';
+    }
+    if ((el as HTMLElement).isContentEditable) return 'textbox';
+    return '';
+  };
+
+  const labelFor = (el: Element): string => {
+    const labelled = el.getAttribute('aria-labelledby');
+    if (labelled) {
+      return clean(labelled.split(/\s+/).map(id => document.getElementById(id)?.textContent || '').join(' '));
+    }
+    const labels = (el as HTMLInputElement).labels;
+    if (labels && labels.length > 0) {
+      return clean(Array.from(labels).map(l => l.textContent).join(' '));
+    }
+    return '';
+  };
+
+  // Text just before the element: previous siblings, or the previous cell in a form table
+  const nearbyFor = (el: Element): string => {
+    let node: Element | null = el;
+    for (let depth = 0; node && depth < 3; depth++) {
+      const previous: Element | null = node.previousElementSibling;
+      const text = clean(previous?.textContent);
+      if (text) return text;
+      node = node.parentElement;
+    }
+    return '';
+  };
+
+  const segment = (el: Element): string => {
+    const tag = el.tagName.toLowerCase();
+    if (el.id) return `${tag}#${el.id}`;
+    const siblings = el.parentElement
+      ? Array.from(el.parentElement.children).filter(child => child.tagName === el.tagName)
+      : [];
+    return siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(el) + 1})` : tag;
+  };
+
+  const ancestorsOf = (el: Element): string => {
+    const path: string[] = [];
+    let node = el.parentElement;
+    while (node && node !== document.body && path.length < 5) {
+      path.unshift(segment(node));
+      node = node.parentElement;
+    }
+    return path.join(' > ');
+  };
+
+  const attributesOf = (el: Element): { [name: string]: string } => {
+    const attributes: { [name: string]: string } = {};
+    for (const attribute of Array.from(el.attributes).slice(0, 20)) {
+      if (attribute.name === 'style' || attribute.name.startsWith('on')) continue;
+      attributes[attribute.name] = attribute.value.slice(0, 100);
+    }
+    return attributes;
+  };
+
+  const NON_TEXT_INPUTS = ['button', 'submit', 'reset', 'image', 'checkbox', 'radio', 'file', 'hidden', 'range', 'color'];
+
+  return elements.map(el => {
+    const tag = el.tagName.toLowerCase();
+    const type = (el.getAttribute('type') || '').toLowerCase();
+    const input = el as HTMLInputElement;
+
+    // Fields have no visible text of their own, except button-like inputs
+    let text = '';
+    if (tag === 'input') {
+      if (['button', 'submit', 'reset'].includes(type)) text = clean(input.value);
+    } else if (tag !== 'select' && tag !== 'textarea') {
+      text = clean((el as HTMLElement).innerText);
+    }
+
+    const textField = (tag === 'input' && !NON_TEXT_INPUTS.includes(type)) || tag === 'textarea';
+    const editable = (textField && !input.disabled && !input.readOnly) || (el as HTMLElement).isContentEditable;
+
+    const rect = el.getBoundingClientRect();
+    const style = window.getComputedStyle(el);
+    const visible = rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+
+    const ariaLabel = el.getAttribute('aria-label') || '';
+    const labelText = labelFor(el);
+
+    return {
+      tag,
+      type,
+      role: implicitRole(el),
+      id: el.id || '',
+      name: el.getAttribute('name') || '',
+      testId: el.getAttribute('data-testid') || '',
+      placeholder: el.getAttribute('placeholder') || '',
+      ariaLabel,
+      labelText,
+      accessibleName: clean(ariaLabel || labelText || text || el.getAttribute('title') || el.getAttribute('placeholder')),
+      text,
+      nearbyText: nearbyFor(el),
+      classes: Array.from(el.classList),
+      attributes: attributesOf(el),
+      boundingBox: visible
+        ? { x: Math.round(rect.x), y: Math.round(rect.y), width: Math.round(rect.width), height: Math.round(rect.height) }
+        : null,
+      ancestorPath: ancestorsOf(el),
+      editable,
+      visible,
+    };
+  });
+}
@@ -0,0 +1,63 @@
+export type ErrorCategory =
+  | 'not-found'
+  | 'strict-mode-violation'
+  | 'not-visible'
+  | 'not-enabled'
+  | 'not-editable'
+  | 'detached'
+  | 'page-closed'
+  | 'navigation'
+  | 'timeout'
+  | 'unknown';
+
+/**
+ * Categories a different locator can fix. The rest mean the element was found
+ * but the application is not in the expected state, or the page itself broke.
+ */
+export const HEALABLE_CATEGORIES: ErrorCategory[] = ['not-found', 'strict-mode-violation', 'not-visible'];
+
+const PAGE_CLOSED = /Target page, context or browser has been closed|Target closed|(Browser|Page|Context) has been closed/i;
+const NAVIGATION = /net::ERR_|NS_ERROR_|NS_BINDING_ABORTED|Navigation failed|frame was detached|Execution context was destroyed/i;
+const STRICT_MODE = /strict mode violation/;
+const NOT_FOUND = /element\(s\) not found/;
+const TIMEOUT = /Timeout \d+ms exceeded/;
+// Playwright logs this once the locator matched an element
+const RESOLVED = /resolved to/;
+
+// Element states from the call log, e.g. "element is not enabled" or "Received: hidden"
+const ELEMENT_STATES: [RegExp, ErrorCategory][] = [
+  [/element is not visible|element is outside of the viewport|Received: hidden/, 'not-visible'],
+  [/element is not enabled|Received: disabled/, 'not-enabled'],
+  [/element is not editable|Element is not an <input>|Received: readonly/i, 'not-editable'],
+  [/element was detached from the DOM|Element is not attached to the DOM/, 'detached'],
+];
+
+/**
+ * Sorts Playwright errors by cause, so only locator problems are healed
+ */
+export class ErrorClassifier {
+  static classify(error: unknown): ErrorCategory {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (PAGE_CLOSED.test(message)) return 'page-closed';
+    if (NAVIGATION.test(message)) return 'navigation';
+    if (STRICT_MODE.test(message)) return 'strict-mode-violation';
+
+    // Playwright retries and logs each state it sees; the last one is why it gave up
+    const lines = message.split('\n').reverse();
+    for (const line of lines) {
+      const state = ELEMENT_STATES.find(([pattern]) => pattern.test(line));
+      if (state) return state[1];
+    }
+
+    if (NOT_FOUND.test(message)) return 'not-found';
+    if (TIMEOUT.test(message)) {
+      return RESOLVED.test(message) ? 'timeout' : 'not-found';
+    }
+    return 'unknown';
+  }
+
+  static isHealable(category: ErrorCategory): boolean {
+    return HEALABLE_CATEGORIES.includes(category);
+  }
+}
@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ElementFingerprint } from './element-fingerprint';
+
+export interface StoredFingerprint extends ElementFingerprint {
+  url: string;
+  capturedAt: string;
+}
+
+interface FingerprintFile {
+  testId: string;
+  testName: string;
+  fingerprints: { [locator: string]: StoredFingerprint };
+}
+
+/**
+ * Local store of element fingerprints, one file per test keyed by locator string.
+ * A test only runs in one worker at a time, so per-test files need no locking.
+ */
+export class FingerprintStore {
+  private data: FingerprintFile;
+  private filePath: string;
+  private dirty = false;
+
+  constructor(
+    testId: string,
+    testName: string,
+    storeDir: string = path.join(process.cwd(), '.healing', 'fingerprints')
+  ) {
+    this.filePath = path.join(storeDir, `${testId}.json`);
+    this.data = { testId, testName, fingerprints: {} };
+    this.load();
+  }
+
+  private load() {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const stored = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        if (stored.fingerprints && typeof stored.fingerprints === 'object') {
+          this.data.fingerprints = stored.fingerprints;
+        }
+      }
+    } catch (e) {
+      console.log('⚠ Could not load element fingerprints, starting fresh');
+    }
+  }
+
+  get(locator: string): StoredFingerprint | undefined {
+    return this.data.fingerprints[locator];
+  }
+
+  /**
+   * Fingerprints recorded for the test's other locators
+   */
+  others(locator: string): StoredFingerprint[] {
+    return Object.entries(this.data.fingerprints)
+      .filter(([key]) => key !== locator)
+      .map(([, fingerprint]) => fingerprint);
+  }
+
+  record(locator: string, fingerprint: ElementFingerprint, url: string) {
+    this.data.fingerprints[locator] = { ...fingerprint, url, capturedAt: new Date().toISOString() };
+    this.dirty = true;
+  }
+
+  save() {
+    if (!this.dirty) return;
+
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    // Write-then-rename so a crashed worker never leaves half a file behind
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.data, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+    this.dirty = false;
+  }
+}
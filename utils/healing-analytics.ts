@@ -0,0 +1,194 @@
+import { HealingChange } from './healing-fixture';
+import { HealingCache } from './healing-cache';
+import type { HealingRunStats, HealingSummary } from './healing-summary';
+
+/**
+ * - broken: healed in every run since it first needed healing (at least two)
+ * - flaky: healed in some of those runs but not all, i.e. timing or data dependent
+ * - new: only seen in the latest run
+ * - once: healed in one earlier run and not since (fixed, or cached)
+ */
+export type LocatorTrendStatus = 'broken' | 'flaky' | 'new' | 'once';
+
+export interface LocatorTrend {
+  originalLocator: string;
+  status: LocatorTrendStatus;
+  /** Runs in which this locator needed healing */
+  runsHealed: number;
+  /** Runs of its tests since (and including) the first one where it needed healing */
+  runsSinceFirstSeen: number;
+  healings: number;
+  successfulHealings: number;
+  /** Distinct locators it was healed to, oldest first */
+  healedTo: string[];
+  firstSeen: string;
+  lastSeen: string;
+  /** Call sites as file:line */
+  locations: string[];
+  pages: string[];
+}
+
+/**
+ * A locator produced by healing that stopped working later: either the
+ * original healed to something else afterwards, or the healed locator (e.g.
+ * after healing:patch) needed healing itself
+ */
+export interface BrokenHealing {
+  originalLocator: string;
+  healedLocator: string;
+  healedAt: string;
+  brokeAt: string;
+  /** What it was healed to next, if that worked */
+  replacedBy?: string;
+}
+
+export interface HealingHotSpot {
+  /** Page URL pattern or spec/page object file */
+  key: string;
+  healings: number;
+  failedHealings: number;
+  locators: number;
+  tests: number;
+}
+
+export interface HealingAnalytics {
+  generatedAt: string;
+  runsAnalyzed: number;
+  permanentlyBroken: LocatorTrend[];
+  flaky: LocatorTrend[];
+  healedThenBroke: BrokenHealing[];
+  /** Pages with the most healings first */
+  pageHotSpots: HealingHotSpot[];
+  /** Files with the most healings first, i.e. the page objects to rewrite first */
+  fileHotSpots: HealingHotSpot[];
+  locators: LocatorTrend[];
+}
+
+/**
+ * Works out how locators behave over the run history of a healing summary
+ */
+export class HealingAnalyzer {
+  static analyze(summary: HealingSummary, now: Date = new Date()): HealingAnalytics {
+    const changes = [...summary.changes].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const runs = summary.runs || [];
+    const locators = HealingAnalyzer.locatorTrends(changes, runs);
+    const bySeverity = (a: LocatorTrend, b: LocatorTrend) => b.runsHealed - a.runsHealed || b.healings - a.healings;
+
+    return {
+      generatedAt: now.toISOString(),
+      runsAnalyzed: runs.length,
+      permanentlyBroken: locators.filter(l => l.status === 'broken').sort(bySeverity),
+      flaky: locators.filter(l => l.status === 'flaky').sort(bySeverity),
+      healedThenBroke: HealingAnalyzer.healedThenBroke(changes),
+      pageHotSpots: HealingAnalyzer.hotSpots(changes, c => (c.pageUrl ? HealingCache.urlPattern(c.pageUrl) : undefined)),
+      fileHotSpots: HealingAnalyzer.hotSpots(changes, c => c.location?.file),
+      locators,
+    };
+  }
+
+  private static locatorTrends(changes: HealingChange[], runs: HealingRunStats[]): LocatorTrend[] {
+    const groups = HealingAnalyzer.groupBy(changes, c => c.originalLocator);
+
+    return [...groups.entries()].map(([originalLocator, group]) => {
+      // Only runs that ran one of the tests using the locator; runs recorded
+      // without test ids, and changes without one, count every run
+      const testIds = new Set(group.map(c => c.testId).filter((id): id is string => !!id));
+      const runIds = runs
+        .filter(run => !run.testIds || testIds.size === 0 || run.testIds.some(id => testIds.has(id)))
+        .map(run => run.runId);
+
+      // Changes from before run history was recorded have no run to count
+      const healedRuns = new Set(group.map(c => c.runId).filter((id): id is string => !!id && runIds.includes(id)));
+      const firstRunIndex = Math.min(...[...healedRuns].map(id => runIds.indexOf(id)));
+      const runsSinceFirstSeen = healedRuns.size > 0 ? runIds.length - firstRunIndex : 0;
+      const healedInLatestRun = runIds.length > 0 && healedRuns.has(runIds[runIds.length - 1]);
+
+      let status: LocatorTrendStatus;
+      if (healedRuns.size >= 2) {
+        status = healedRuns.size === runsSinceFirstSeen ? 'broken' : 'flaky';
+      } else {
+        status = healedInLatestRun ? 'new' : 'once';
+      }
+
+      const successful = group.filter(c => c.success);
+      return {
+        originalLocator,
+        status,
+        runsHealed: healedRuns.size,
+        runsSinceFirstSeen,
+        healings: group.length,
+        successfulHealings: successful.length,
+        healedTo: [...new Set(successful.map(c => c.healedLocator))],
+        firstSeen: group[0].timestamp,
+        lastSeen: group[group.length - 1].timestamp,
+        locations: [...new Set(group.filter(c => c.location).map(c => `${c.location!.file}:${c.location!.line}`))],
+        pages: [...new Set(group.filter(c => c.pageUrl).map(c => HealingCache.urlPattern(c.pageUrl!)))],
+      };
+    });
+  }
+
+  private static healedThenBroke(changes: HealingChange[]): BrokenHealing[] {
+    const broken: BrokenHealing[] = [];
+    // The latest successful healing of each original locator
+    const current = new Map<string, HealingChange>();
+
+    for (const change of changes) {
+      // The healed locator itself failed, e.g. after it was patched into the spec
+      for (const healing of current.values()) {
+        if (healing.healedLocator === change.originalLocator && healing.timestamp < change.timestamp) {
+          broken.push({
+            originalLocator: healing.originalLocator,
+            healedLocator: healing.healedLocator,
+            healedAt: healing.timestamp,
+            brokeAt: change.timestamp,
+            replacedBy: change.success ? change.healedLocator : undefined,
+          });
+          current.delete(healing.originalLocator);
+        }
+      }
+
+      if (!change.success) continue;
+
+      // The same original locator had to be healed to something else
+      const previous = current.get(change.originalLocator);
+      if (previous && previous.healedLocator !== change.healedLocator) {
+        broken.push({
+          originalLocator: previous.originalLocator,
+          healedLocator: previous.healedLocator,
+          healedAt: previous.timestamp,
+          brokeAt: change.timestamp,
+          replacedBy: change.healedLocator,
+        });
+      }
+      current.set(change.originalLocator, change);
+    }
+
+    return broken;
+  }
+
+  private static hotSpots(changes: HealingChange[], keyOf: (change: HealingChange) => string | undefined): HealingHotSpot[] {
+    const groups = HealingAnalyzer.groupBy(
+      changes.filter(c => keyOf(c)),
+      c => keyOf(c)!
+    );
+
+    return [...groups.entries()]
+      .map(([key, group]) => ({
+        key,
+        healings: group.length,
+        failedHealings: group.filter(c => !c.success).length,
+        locators: new Set(group.map(c => c.originalLocator)).size,
+        tests: new Set(group.map(c => c.testId || c.testName)).size,
+      }))
+      .sort((a, b) => b.healings - a.healings || a.key.localeCompare(b.key));
+  }
+
+  private static groupBy(changes: HealingChange[], keyOf: (change: HealingChange) => string): Map<string, HealingChange[]> {
+    const groups = new Map<string, HealingChange[]>();
+    for (const change of changes) {
+      const key = keyOf(change);
+      groups.set(key, [...(groups.get(key) || []), change]);
+    }
+    return groups;
+  }
+}
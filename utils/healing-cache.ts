@@ -0,0 +1,297 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { HealingStage } from './healing-fixture';
+
+export const CACHE_VERSION = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface HealingCacheEntry {
+  key: string;
+  originalLocator: string;
+  healedLocator: string;
+  /** Page URL with query, hash and id-like path segments removed, e.g. https://shop.test/orders/* */
+  urlPattern: string;
+  testId?: string;
+  testName?: string;
+  projectName?: string;
+  healedBy?: HealingStage;
+  /** 0-1: fingerprint similarity when verified against one, otherwise a per-stage default */
+  confidence: number;
+  hitCount: number;
+  createdAt: string;
+  lastVerifiedAt: string;
+}
+
+export interface HealingCacheLookup {
+  originalLocator: string;
+  url: string;
+  testId?: string;
+  projectName?: string;
+}
+
+interface HealingCacheFile {
+  version: number;
+  entries: { [key: string]: HealingCacheEntry };
+}
+
+export interface HealingCacheOptions {
+  /** Entries not verified for this long are ignored and pruned (default: 14) */
+  ttlDays?: number;
+  /** Give up waiting for another worker's lock after this long (default: 10s) */
+  lockTimeoutMs?: number;
+}
+
+// A lock older than this was left behind by a crashed worker
+const STALE_LOCK_MS = 30000;
+const LOCK_RETRY_MS = 25;
+
+/**
+ * Cache of verified healings in .healing/cache.json, shared by all workers.
+ * Entries are keyed by project, test, page URL pattern and original locator;
+ * a lookup falls back to the same locator healed by another test on the same page.
+ * Every write re-reads the file under a lock file, so concurrent workers
+ * never overwrite each other's entries, and reads reload the file whenever
+ * another worker has replaced it.
+ */
+export class HealingCache {
+  readonly filePath: string;
+  private lockPath: string;
+  private ttlMs: number;
+  private lockTimeoutMs: number;
+  private entries: { [key: string]: HealingCacheEntry } = {};
+  /** Identity of the file version `entries` was read from; empty when there was no file */
+  private loadedStamp: string | null = null;
+
+  constructor(
+    filePath: string = path.join(process.cwd(), '.healing', 'cache.json'),
+    options: HealingCacheOptions = {}
+  ) {
+    this.filePath = filePath;
+    this.lockPath = `${filePath}.lock`;
+    this.ttlMs = (options.ttlDays ?? 14) * DAY_MS;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 10000;
+    this.refresh();
+  }
+
+  get size(): number {
+    return this.list().length;
+  }
+
+  /**
+   * Returns a live (not expired) entry for this test, or failing that the most
+   * confident one for the same locator on the same page
+   */
+  get(lookup: HealingCacheLookup, now: Date = new Date()): HealingCacheEntry | undefined {
+    const live = this.list().filter(entry => !this.isExpired(entry, now));
+    const exact = live.find(entry => entry.key === HealingCache.key(lookup));
+    if (exact) return exact;
+
+    const urlPattern = HealingCache.urlPattern(lookup.url);
+    return live
+      .filter(entry => entry.originalLocator === lookup.originalLocator && entry.urlPattern === urlPattern)
+      .sort((a, b) => b.confidence - a.confidence)[0];
+  }
+
+  list(): HealingCacheEntry[] {
+    this.refresh();
+    return Object.values(this.entries);
+  }
+
+  isExpired(entry: HealingCacheEntry, now: Date = new Date()): boolean {
+    return now.getTime() - new Date(entry.lastVerifiedAt).getTime() > this.ttlMs;
+  }
+
+  expiresAt(entry: HealingCacheEntry): Date {
+    return new Date(new Date(entry.lastVerifiedAt).getTime() + this.ttlMs);
+  }
+
+  async record(
+    lookup: HealingCacheLookup & { testName?: string },
+    healedLocator: string,
+    healedBy: HealingStage,
+    confidence: number
+  ): Promise<HealingCacheEntry> {
+    const now = new Date().toISOString();
+    const entry: HealingCacheEntry = {
+      key: HealingCache.key(lookup),
+      originalLocator: lookup.originalLocator,
+      healedLocator,
+      urlPattern: HealingCache.urlPattern(lookup.url),
+      testId: lookup.testId,
+      testName: lookup.testName,
+      projectName: lookup.projectName,
+      healedBy,
+      confidence,
+      hitCount: 0,
+      createdAt: now,
+      lastVerifiedAt: now,
+    };
+
+    await this.update(entries => {
+      entries[entry.key] = entry;
+    });
+    return entry;
+  }
+
+  /**
+   * Marks an entry as verified again, refreshing its TTL
+   */
+  async recordHit(key: string, confidence?: number) {
+    await this.update(entries => {
+      const entry = entries[key];
+      if (!entry) return;
+      entry.hitCount++;
+      entry.lastVerifiedAt = new Date().toISOString();
+      if (confidence !== undefined) {
+        entry.confidence = confidence;
+      }
+    });
+  }
+
+  /**
+   * Removes matching entries and returns them
+   */
+  async invalidate(matches: (entry: HealingCacheEntry) => boolean): Promise<HealingCacheEntry[]> {
+    const removed: HealingCacheEntry[] = [];
+    await this.update(entries => {
+      for (const [key, entry] of Object.entries(entries)) {
+        if (matches(entry)) {
+          removed.push(entry);
+          delete entries[key];
+        }
+      }
+    });
+    return removed;
+  }
+
+  async prune(now: Date = new Date()): Promise<HealingCacheEntry[]> {
+    return this.invalidate(entry => this.isExpired(entry, now));
+  }
+
+  static key(lookup: HealingCacheLookup): string {
+    return [
+      lookup.projectName ?? '',
+      lookup.testId ?? '',
+      HealingCache.urlPattern(lookup.url),
+      lookup.originalLocator,
+    ].join('|');
+  }
+
+  /**
+   * Strips query and hash and replaces numeric, UUID and hash-like path
+   * segments with *, so /orders/123 and /orders/456 share entries
+   */
+  static urlPattern(url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch (e) {
+      return url;
+    }
+
+    const segments = parsed.pathname
+      .split('/')
+      .map(segment => (/^(\d+|[0-9a-f]{8}-[0-9a-f-]{27}|[0-9a-f]{16,})$/i.test(segment) ? '*' : segment));
+    return `${parsed.origin}${segments.join('/')}`;
+  }
+
+  /**
+   * Read-modify-write under the lock, so entries written by other workers since
+   * this cache was loaded are kept
+   */
+  private async update(mutate: (entries: { [key: string]: HealingCacheEntry }) => void) {
+    await this.withLock(() => {
+      const data = this.read();
+      mutate(data.entries);
+      this.write(data);
+      this.entries = data.entries;
+      this.loadedStamp = this.stamp();
+    });
+  }
+
+  /**
+   * Reloads the entries when the file changed since they were read. Writes
+   * replace the file, so its inode changes even within one mtime tick.
+   */
+  private refresh() {
+    const stamp = this.stamp();
+    if (stamp === this.loadedStamp) return;
+    this.entries = this.read().entries;
+    this.loadedStamp = stamp;
+  }
+
+  private stamp(): string {
+    try {
+      const stat = fs.statSync(this.filePath);
+      return `${stat.ino}:${stat.mtimeMs}:${stat.size}`;
+    } catch (e) {
+      return '';
+    }
+  }
+
+  private read(): HealingCacheFile {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const stored = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        if (stored.version === CACHE_VERSION && stored.entries && typeof stored.entries === 'object') {
+          return stored;
+        }
+        console.log(`⚠ Healing cache has version ${stored.version}, expected ${CACHE_VERSION} - starting fresh`);
+      }
+    } catch (e) {
+      console.log('⚠ Could not load healing cache, starting fresh');
+    }
+    return { version: CACHE_VERSION, entries: {} };
+  }
+
+  private write(data: HealingCacheFile) {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    // Write-then-rename so readers never see half a file
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private async withLock(run: () => void) {
+    const dir = path.dirname(this.lockPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const deadline = Date.now() + this.lockTimeoutMs;
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(this.lockPath, 'wx'));
+        break;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e;
+        this.removeStaleLock();
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for healing cache lock ${this.lockPath}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+    }
+
+    try {
+      run();
+    } finally {
+      fs.rmSync(this.lockPath, { force: true });
+    }
+  }
+
+  private removeStaleLock() {
+    try {
+      if (Date.now() - fs.statSync(this.lockPath).mtimeMs > STALE_LOCK_MS) {
+        fs.rmSync(this.lockPath, { force: true });
+      }
+    } catch (e) {
+      // Released between our open and stat
+    }
+  }
+}
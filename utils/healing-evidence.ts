@@ -0,0 +1,148 @@
+import { Locator, Page } from '@playwright/test';
+
+/**
+ * - before: the page when the locator failed
+ * - after: the page with the healed element highlighted
+ * - vision: the screenshot sent for vision analysis
+ * - dom: trimmed HTML around the healed element
+ */
+export type HealingEvidenceKind = 'before' | 'after' | 'vision' | 'dom';
+
+/**
+ * Reference from a HealingChange to one piece of evidence attached to the test
+ */
+export interface HealingEvidence {
+  kind: HealingEvidenceKind;
+  /** Test attachment name, unique per healing */
+  attachment: string;
+  contentType: string;
+  /** Copy next to the healing report (e.g. "evidence/<name>.png"), set by HealingReporter */
+  path?: string;
+}
+
+/**
+ * Evidence waiting to be attached to the test
+ */
+export interface HealingEvidenceFile {
+  name: string;
+  contentType: string;
+  body: Buffer;
+}
+
+const HIGHLIGHT_ID = '__healing-highlight__';
+const CAPTURE_TIMEOUT_MS = 2000;
+
+/**
+ * Captures screenshots and DOM snippets of a healing; evidence that cannot be
+ * captured (e.g. the page closed) is skipped, never failing the test
+ */
+export class HealingEvidenceRecorder {
+  private files: HealingEvidenceFile[] = [];
+
+  constructor(private maxSnippetLength = 4000) {}
+
+  static attachmentName(changeId: string, kind: HealingEvidenceKind): string {
+    return `healing-evidence-${changeId}-${kind}`;
+  }
+
+  static extension(contentType: string): string {
+    return contentType === 'image/png' ? '.png' : '.html';
+  }
+
+  async screenshot(changeId: string, kind: HealingEvidenceKind, page: Page): Promise<HealingEvidence | null> {
+    try {
+      return this.add(changeId, kind, 'image/png', await page.screenshot({ timeout: CAPTURE_TIMEOUT_MS }));
+    } catch (e) {
+      return null;
+    }
+  }
+
+  /**
+   * Adds a screenshot that was taken elsewhere, e.g. for vision analysis
+   */
+  addScreenshot(changeId: string, kind: HealingEvidenceKind, body: Buffer): HealingEvidence {
+    return this.add(changeId, kind, 'image/png', body);
+  }
+
+  /**
+   * Screenshot with an overlay drawn over the element, removed again afterwards
+   */
+  async highlightedScreenshot(changeId: string, locator: Locator): Promise<HealingEvidence | null> {
+    const page = locator.page();
+    try {
+      await locator.scrollIntoViewIfNeeded({ timeout: CAPTURE_TIMEOUT_MS });
+      const box = await locator.boundingBox({ timeout: CAPTURE_TIMEOUT_MS });
+      if (!box) return this.screenshot(changeId, 'after', page);
+
+      await page.evaluate(
+        ({ id, box }) => {
+          const overlay = document.createElement('div');
+          overlay.id = id;
+          Object.assign(overlay.style, {
+            position: 'fixed',
+            left: `${box.x - 3}px`,
+            top: `${box.y - 3}px`,
+            width: `${box.width + 6}px`,
+            height: `${box.height + 6}px`,
+            border: '3px solid #e91e63',
+            background: 'rgba(233, 30, 99, 0.15)',
+            boxSizing: 'border-box',
+            pointerEvents: 'none',
+            zIndex: '2147483647',
+          });
+          document.body.appendChild(overlay);
+        },
+        { id: HIGHLIGHT_ID, box }
+      );
+      try {
+        return this.add(changeId, 'after', 'image/png', await page.screenshot({ timeout: CAPTURE_TIMEOUT_MS }));
+      } finally {
+        await page.evaluate(id => document.getElementById(id)?.remove(), HIGHLIGHT_ID);
+      }
+    } catch (e) {
+      return null;
+    }
+  }
+
+  /**
+   * Outer HTML of the element's parent (or the element itself when the parent
+   * is too large), without scripts and styles; the element is marked with
+   * data-healed-target
+   */
+  async domSnippet(changeId: string, locator: Locator): Promise<{ evidence: HealingEvidence; snippet: string } | null> {
+    try {
+      const snippet = await locator.first().evaluate((element, maxLength) => {
+        const trim = (node: Element) => {
+          const clone = node.cloneNode(true) as Element;
+          clone.querySelectorAll('script, style, noscript, svg').forEach(child => child.remove());
+          return clone.outerHTML.replace(/\s+/g, ' ');
+        };
+
+        element.setAttribute('data-healed-target', '');
+        try {
+          const parent = element.parentElement;
+          const around = parent && parent !== document.body ? trim(parent) : '';
+          if (around && around.length <= maxLength) return around;
+          const own = trim(element);
+          return own.length <= maxLength ? own : `${own.slice(0, maxLength)}…`;
+        } finally {
+          element.removeAttribute('data-healed-target');
+        }
+      }, this.maxSnippetLength, { timeout: CAPTURE_TIMEOUT_MS });
+
+      return { evidence: this.add(changeId, 'dom', 'text/html', Buffer.from(snippet, 'utf-8')), snippet };
+    } catch (e) {
+      return null;
+    }
+  }
+
+  getFiles(): HealingEvidenceFile[] {
+    return this.files;
+  }
+
+  private add(changeId: string, kind: HealingEvidenceKind, contentType: string, body: Buffer): HealingEvidence {
+    const attachment = HealingEvidenceRecorder.attachmentName(changeId, kind);
+    this.files.push({ name: attachment, contentType, body });
+    return { kind, attachment, contentType };
+  }
+}
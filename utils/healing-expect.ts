@@ -0,0 +1,123 @@
+import { expect as baseExpect, ExpectMatcherState, Locator, MatcherReturnType } from '@playwright/test';
+import { HealingLocator } from './healing-locator';
+
+type LocatorAssertions = ReturnType<typeof baseExpect<Locator>>;
+
+// Parameters of both overloads, e.g. toHaveAttribute(name, value?, options?) and toHaveAttribute(name, options?)
+type MatcherArgs<F> = F extends { (...args: infer A): any; (...args: infer B): any } ? A | B : never;
+
+// Playwright's locator matchers; all of them accept a HealingLocator
+type HealingMatcherName =
+  | 'toBeAttached'
+  | 'toBeChecked'
+  | 'toBeDisabled'
+  | 'toBeEditable'
+  | 'toBeEmpty'
+  | 'toBeEnabled'
+  | 'toBeFocused'
+  | 'toBeHidden'
+  | 'toBeInViewport'
+  | 'toBeVisible'
+  | 'toContainClass'
+  | 'toContainText'
+  | 'toHaveAccessibleDescription'
+  | 'toHaveAccessibleErrorMessage'
+  | 'toHaveAccessibleName'
+  | 'toHaveAttribute'
+  | 'toHaveClass'
+  | 'toHaveCount'
+  | 'toHaveCSS'
+  | 'toHaveId'
+  | 'toHaveJSProperty'
+  | 'toHaveRole'
+  | 'toHaveScreenshot'
+  | 'toHaveText'
+  | 'toHaveValue'
+  | 'toHaveValues'
+  | 'toMatchAriaSnapshot';
+
+/**
+ * Assertions like toBeHidden(), toHaveCount(0) or toBeVisible({ visible: false })
+ * pass when nothing matches, so an empty match is not a broken locator for them
+ */
+function expectsNoMatch(name: HealingMatcherName, args: unknown[]): boolean {
+  const options = args[0] as { visible?: boolean; attached?: boolean } | undefined;
+  switch (name) {
+    case 'toBeHidden':
+      return true;
+    case 'toHaveCount':
+      return args[0] === 0;
+    case 'toBeVisible':
+      return options?.visible === false;
+    case 'toBeAttached':
+      return options?.attached === false;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Wraps a built-in locator matcher: a HealingLocator that matches nothing is
+ * healed first, then the built-in matcher runs against the (healed) locator.
+ * Negated assertions are never healed, "not there" is what they check for.
+ */
+function healingMatcher<K extends HealingMatcherName>(name: K) {
+  return async function (
+    this: ExpectMatcherState,
+    received: HealingLocator | Locator,
+    ...args: MatcherArgs<LocatorAssertions[K]>
+  ): Promise<MatcherReturnType> {
+    let target: Locator;
+    if (!(received instanceof HealingLocator)) {
+      target = received;
+    } else if (this.isNot || expectsNoMatch(name, args)) {
+      target = received.locatorNow;
+    } else {
+      // Called before any await so the call site still sees the spec frame
+      target = await received.resolveForAssertion(name, this.timeout);
+    }
+
+    const expectTarget = baseExpect.configure({ timeout: this.timeout })(target);
+    const assertion: any = this.isNot ? expectTarget.not : expectTarget;
+    try {
+      await assertion[name](...args);
+      return { pass: !this.isNot, name, message: () => '' };
+    } catch (error) {
+      return { pass: this.isNot, name, message: () => (error as Error).message };
+    }
+  };
+}
+
+/**
+ * Playwright's expect with locator matchers that accept HealingLocator and
+ * heal it when nothing matches
+ */
+export const expect = baseExpect.extend({
+  toBeAttached: healingMatcher('toBeAttached'),
+  toBeChecked: healingMatcher('toBeChecked'),
+  toBeDisabled: healingMatcher('toBeDisabled'),
+  toBeEditable: healingMatcher('toBeEditable'),
+  toBeEmpty: healingMatcher('toBeEmpty'),
+  toBeEnabled: healingMatcher('toBeEnabled'),
+  toBeFocused: healingMatcher('toBeFocused'),
+  toBeHidden: healingMatcher('toBeHidden'),
+  toBeInViewport: healingMatcher('toBeInViewport'),
+  toBeVisible: healingMatcher('toBeVisible'),
+  toContainClass: healingMatcher('toContainClass'),
+  toContainText: healingMatcher('toContainText'),
+  toHaveAccessibleDescription: healingMatcher('toHaveAccessibleDescription'),
+  toHaveAccessibleErrorMessage: healingMatcher('toHaveAccessibleErrorMessage'),
+  toHaveAccessibleName: healingMatcher('toHaveAccessibleName'),
+  toHaveAttribute: healingMatcher('toHaveAttribute'),
+  toHaveClass: healingMatcher('toHaveClass'),
+  toHaveCount: healingMatcher('toHaveCount'),
+  toHaveCSS: healingMatcher('toHaveCSS'),
+  toHaveId: healingMatcher('toHaveId'),
+  toHaveJSProperty: healingMatcher('toHaveJSProperty'),
+  toHaveRole: healingMatcher('toHaveRole'),
+  toHaveScreenshot: healingMatcher('toHaveScreenshot'),
+  toHaveText: healingMatcher('toHaveText'),
+  toHaveValue: healingMatcher('toHaveValue'),
+  toHaveValues: healingMatcher('toHaveValues'),
+  toMatchAriaSnapshot: healingMatcher('toMatchAriaSnapshot'),
+});
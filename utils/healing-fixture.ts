@@ -1,57 +1,221 @@
 import { test as base, Page, Locator } from '@playwright/test';
-import { OpenAIService } from './openai-service';
+import {
+  createSuggestionProvider,
+  HealingProviderOptions,
+  LocatorSuggestionProvider,
+  LocatorSuggestion,
+  LocatorSuggestionRequest,
+} from './locator-suggestion-provider';
 import { HealingHTMLGenerator } from './healing-html-generator';
-import * as fs from 'fs';
+import { HeuristicHealer } from './heuristic-healer';
+import { LocatorParser } from './locator-parser';
+import { LocatorVerifier, waitForAction } from './locator-verifier';
+import { ElementFingerprint, ElementFingerprinter } from './element-fingerprint';
+import { FingerprintStore } from './fingerprint-store';
+import { CallSite, SourceLocation } from './call-site';
+import { HealingLocator, HealingLocatorOptions, HealingRunner } from './healing-locator';
+import { ErrorCategory, ErrorClassifier } from './error-classifier';
+import { HealingCache, HealingCacheLookup } from './healing-cache';
+import { HealingEvidence, HealingEvidenceFile, HealingEvidenceRecorder } from './healing-evidence';
+import { HEALING_ANNOTATION, HealingPolicies, HealingPolicy } from './healing-policy';
+import { DomCondenser } from './dom-condenser';
+import { AriaSnapshotter } from './aria-snapshot';
+import { randomUUID } from 'crypto';
 import * as path from 'path';
 
+/**
+ * Name of the test attachment that carries a test's healing changes from the
+ * worker to HealingReporter
+ */
+export const HEALING_ATTACHMENT = 'healing-changes';
+
 export interface HealingChange {
+  /** Unique per healing, used to deduplicate when merging reports */
+  id: string;
   timestamp: string;
   testName: string;
   originalLocator: string;
   healedLocator: string;
   errorMessage: string;
+  /** What kind of failure triggered the healing, e.g. "not-found" */
+  errorCategory?: ErrorCategory;
+  /** URL of the page when the locator failed */
+  pageUrl?: string;
   success: boolean;
   attemptedLocators: string[];
   healingTimeMs: number;
+  /** Provider and model that produced the suggestions, e.g. "openai/gpt-4o" */
+  provider?: string;
+  /** Stage that found the healed locator */
+  healedBy?: HealingStage;
+  /** Per-candidate outcome, in the same order as attemptedLocators */
+  attempts?: HealingAttempt[];
+  /** Spec line that called the HealingPage action */
+  location?: SourceLocation;
+  /** Where the test is declared */
+  testLocation?: SourceLocation;
+  /** HealingPage action or matcher that failed, e.g. "click" or "toBeVisible" */
+  action?: string;
+  /** Whether an action or an expect() assertion needed the healing */
+  trigger?: HealingTrigger;
+  /** Playwright's stable test id (hash of file, title path and project) */
+  testId?: string;
+  projectName?: string;
+  /** Retry index of the test attempt that healed (0 = first run) */
+  retry?: number;
+  /** Test run this healing belongs to, set by HealingReporter */
+  runId?: string;
+  /** Screenshots and DOM snippet attached to the test for this healing */
+  evidence?: HealingEvidence[];
+  /** Trimmed HTML around the healed element */
+  domSnippet?: string;
+  /** Policy the test ran under */
+  policy?: HealingPolicy;
+  /** Whether the test continued with the healed locator (not under report-only) */
+  applied?: boolean;
+}
+
+/**
+ * Identity of the running test, taken from TestInfo
+ */
+export interface HealingTestMeta {
+  testId: string;
+  projectName: string;
+  retry: number;
+  /** Where the test itself is declared */
+  location: SourceLocation;
+}
+
+export type HealingStage = 'cache' | 'heuristic' | 'ai' | 'vision';
+
+export type HealingTrigger = 'action' | 'assertion';
+
+export interface HealingAttempt {
+  locator: string;
+  source: HealingStage;
+  outcome: 'accepted' | 'rejected' | 'invalid';
+  /** Why the candidate was not used */
+  reason?: string;
+  /** Error class for candidates that could not be evaluated, e.g. LocatorParseError */
+  errorType?: string;
+  /** Provider suggestions only: the locator strategy, e.g. 'role' */
+  strategy?: LocatorSuggestion['strategy'];
+  /** Provider suggestions only: the model's confidence, 0 to 1 */
+  confidence?: number;
+  /** Provider suggestions only: why the model expected the locator to work */
+  rationale?: string;
+}
+
+/**
+ * Options set through `use: { healingOptions: {...} }` in playwright.config.ts
+ */
+export interface HealingOptions extends HealingProviderOptions {
+  /** Run the offline heuristic healer before asking the provider (default: true) */
+  heuristic?: boolean;
+  /** Reuse verified healings from .healing/cache.json (default: true) */
+  cache?: boolean;
+  /** Directory of the healing cache and element fingerprints (default: .healing) */
+  stateDir?: string;
+  /** Cache entries not verified for this many days are ignored (default: 14) */
+  cacheTtlDays?: number;
+  /** Attach before/after screenshots and a DOM snippet to every healing (default: true) */
+  evidence?: boolean;
+  /** Defaults to HEALING_POLICY, then 'heal' */
+  policy?: HealingPolicy;
+  /** Size limit of the page context sent to the provider, in estimated tokens (default: 3000) */
+  domTokenBudget?: number;
+  /**
+   * What the provider sees of the page: condensed HTML, Playwright's
+   * accessibility snapshot, or both (default: 'html')
+   */
+  pageContext?: PageContextMode;
+}
+
+export type PageContextMode = 'html' | 'aria' | 'both';
+
+// Cache confidence for healings verified without a fingerprint to compare against
+const STAGE_CONFIDENCE: { [stage in Exclude<HealingStage, 'cache'>]: number } = {
+  heuristic: 0.7,
+  ai: 0.8,
+  vision: 0.6,
+};
+
+/**
+ * What the caller knows about the failed locator beyond its string
+ */
+export interface HealingCallContext {
+  /** Fingerprint of the element the original locator used to resolve to */
+  fingerprint?: ElementFingerprint;
+  /** Fingerprints of the elements the test's other locators resolve to */
+  otherFingerprints?: ElementFingerprint[];
+  location?: SourceLocation;
+  trigger?: HealingTrigger;
+  /** Classified by the caller; classified from the error when missing */
+  errorCategory?: ErrorCategory;
+}
+
+interface HealingRecordInput extends HealingCallContext {
+  /** Id of the HealingChange this becomes; names its evidence */
+  id: string;
+  testName: string;
+  action: string;
+  originalLocator: string;
+  error: Error;
+  attemptedLocators: string[];
+  attempts: HealingAttempt[];
+  healingStartTime: number;
+  pageUrl: string;
+  evidence: HealingEvidence[];
+}
+
+interface VerifiedCandidate {
+  suggestion: string;
+  locator: Locator;
+  /** Fingerprint similarity, when there was a fingerprint to compare against */
+  similarity?: number;
 }
 
 export class HealingContext {
   private changes: HealingChange[] = [];
-  private openAIService!: OpenAIService;
+  private provider: LocatorSuggestionProvider | null;
+  private heuristicHealer: HeuristicHealer | null;
+  private verifier = new LocatorVerifier();
   private enabled: boolean;
-  private healingCache: Map<string, string> = new Map(); // originalLocator -> healedLocator
-  private cacheFilePath: string;
+  private cache: HealingCache | null;
+  private evidence: HealingEvidenceRecorder | null;
+  private condenser: DomCondenser;
+  private snapshotter: AriaSnapshotter;
+  private pageContext: PageContextMode;
+  readonly policy: HealingPolicy;
 
-  constructor(apiKey?: string) {
-    this.enabled = !!apiKey;
-    this.cacheFilePath = path.join(process.cwd(), 'healing-reports', 'summary.json');
-    this.loadCache();
+  constructor(
+    provider: LocatorSuggestionProvider | null,
+    options: HealingOptions = {},
+    private testMeta?: HealingTestMeta
+  ) {
+    this.provider = provider;
+    this.heuristicHealer = options.heuristic === false ? null : new HeuristicHealer();
+    this.enabled = !!provider || !!this.heuristicHealer;
+    this.cache = options.cache === false
+      ? null
+      : new HealingCache(options.stateDir && path.join(options.stateDir, 'cache.json'), { ttlDays: options.cacheTtlDays });
+    this.evidence = options.evidence === false ? null : new HealingEvidenceRecorder();
+    this.policy = HealingPolicies.resolve(options.policy);
+    this.pageContext = options.pageContext ?? 'html';
+    // Both kinds of context share the budget
+    const tokenBudget = (options.domTokenBudget ?? 3000) / (this.pageContext === 'both' ? 2 : 1);
+    this.condenser = new DomCondenser({ tokenBudget });
+    this.snapshotter = new AriaSnapshotter({ tokenBudget });
+    if (this.cache && this.cache.size > 0) {
+      console.log(`✓ Loaded ${this.cache.size} cached healings from previous runs`);
+    }
     
-    if (this.enabled) {
-      console.log('✓ OpenAI connection enabled');
-      this.openAIService = new OpenAIService(apiKey!);
+    if (provider) {
+      console.log(`✓ ${provider.name} connection enabled`);
+    } else if (this.heuristicHealer) {
+      console.log('⚠ No healing provider configured (missing API key?) - heuristic healing only');
     } else {
-      console.log('⚠ OpenAI API key not found - healing disabled');
-    }
-  }
-
-  private loadCache() {
-    try {
-      if (fs.existsSync(this.cacheFilePath)) {
-        const content = fs.readFileSync(this.cacheFilePath, 'utf-8');
-        const summary = JSON.parse(content);
-        
-        if (summary.changes && Array.isArray(summary.changes)) {
-          summary.changes
-            .filter((c: HealingChange) => c.success)
-            .forEach((c: HealingChange) => {
-              this.healingCache.set(c.originalLocator, c.healedLocator);
-            });
-          console.log(`✓ Loaded ${this.healingCache.size} cached healings from previous runs`);
-        }
-      }
-    } catch (e) {
-      console.log('⚠ Could not load healing cache, starting fresh');
+      console.log('⚠ No healing provider configured (missing API key?) - healing disabled');
     }
   }
 
@@ -60,170 +224,396 @@ export class HealingContext {
     originalAction: string,
     originalLocator: string,
     error: Error,
-    testName: string
+    testName: string,
+    context: HealingCallContext = {}
   ): Promise<{ locator: Locator | null; healed: boolean }> {
+    const { fingerprint } = context;
     if (!this.enabled) {
       return { locator: null, healed: false };
     }
 
     console.log(`\n🔧 Self-healing initiated for: ${originalLocator}`);
-    console.log(`   Error: ${error.message}`);
+    const errorCategory = context.errorCategory ?? ErrorClassifier.classify(error);
+    console.log(`   Error (${errorCategory}): ${error.message}`);
     console.log(`   Test: ${testName}`);
 
+    const healingStartTime = Date.now();
+    const record: HealingRecordInput = {
+      id: randomUUID(),
+      testName,
+      action: originalAction,
+      originalLocator,
+      fingerprint,
+      location: context.location,
+      trigger: context.trigger,
+      errorCategory,
+      pageUrl: page.url(),
+      error,
+      attemptedLocators: [],
+      attempts: [],
+      healingStartTime,
+      evidence: [],
+    };
+
+    // The page as the failed locator saw it
+    const before = await this.evidence?.screenshot(record.id, 'before', page);
+    if (before) record.evidence.push(before);
+
     // Check cache first
-    if (this.healingCache.has(originalLocator)) {
-      const cachedLocator = this.healingCache.get(originalLocator)!;
-      console.log(`   💾 Found in cache: ${cachedLocator}`);
-      
+    const lookup: HealingCacheLookup = {
+      originalLocator,
+      url: record.pageUrl,
+      testId: this.testMeta?.testId,
+      projectName: this.testMeta?.projectName,
+    };
+    const cached = this.cache?.get(lookup);
+    if (this.cache && cached) {
+      console.log(`   💾 Found in cache: ${cached.healedLocator} (hits: ${cached.hitCount}, confidence: ${cached.confidence.toFixed(2)})`);
+      record.attemptedLocators.push(cached.healedLocator);
+
+      let reason: string | undefined;
       try {
-        const locator = this.evaluateLocator(page, cachedLocator);
-        await locator.waitFor({ state: 'visible', timeout: 2000 });
-        console.log(`   ✓ Cache hit successful! Using: ${cachedLocator}`);
-        return { locator, healed: true };
+        const locator = this.evaluateLocator(page, cached.healedLocator);
+        const verification = await this.verifier.verify(locator, originalAction, fingerprint);
+        if (verification.ok) {
+          console.log(`   ✓ Cache hit successful! Using: ${cached.healedLocator}`);
+          record.attempts.push({ locator: cached.healedLocator, source: 'cache', outcome: 'accepted' });
+          // No test runs with the entry under report-only, so it is not marked verified
+          if (HealingPolicies.usesHealedLocators(this.policy)) {
+            await this.updateCache(cache => cache.recordHit(cached.key, verification.similarity));
+          }
+          // Still recorded, so analytics can tell a locator that breaks on every run
+          return await this.acceptHealing(
+            record,
+            { suggestion: cached.healedLocator, locator, similarity: verification.similarity },
+            'cache',
+            'cache'
+          );
+        }
+        reason = verification.reason;
+        console.log(`   ⚠ Cache entry rejected: ${reason}`);
       } catch (e) {
-        console.log(`   ⚠ Cache entry failed, will query OpenAI`);
-        this.healingCache.delete(originalLocator); // Remove stale cache
+        reason = (e as Error).message.split('\n')[0];
+        console.log(`   ⚠ Cache entry failed`);
       }
+      record.attempts.push({ locator: cached.healedLocator, source: 'cache', outcome: 'rejected', reason });
+      console.log(`   ⚠ Will try healing again`);
+      await this.updateCache(cache => cache.invalidate(entry => entry.key === cached.key)); // Remove stale cache
     }
 
-    const healingStartTime = Date.now();
+    // Local heuristic stage: no network, no cost, works without an API key
+    if (this.heuristicHealer) {
+      console.log('   🔍 Ranking page elements against the failed locator...');
+      try {
+        const ranked = await this.heuristicHealer.suggest(
+          page,
+          originalLocator,
+          originalAction,
+          fingerprint,
+          context.otherFingerprints
+        );
+        console.log(`   🔍 Heuristic found ${ranked.length} candidates`);
+
+        const healed = await this.tryCandidates(page, ranked.map(r => r.locator), record, 'heuristic');
+        if (healed) {
+          return await this.acceptHealing(record, healed, 'heuristic', 'heuristic');
+        }
+      } catch (e) {
+        console.log('   ✗ Heuristic stage failed (page may be closed)');
+      }
+    }
 
-    let pageHTML: string;
+    if (!this.provider) {
+      return this.rejectHealing(record);
+    }
+
+    let pageContext: Pick<LocatorSuggestionRequest, 'pageHTML' | 'ariaSnapshot'>;
     try {
-      console.log('   📄 Extracting page HTML...');
-      pageHTML = await page.content();
-      console.log(`   📄 Page HTML extracted (${pageHTML.length} characters)`);
+      pageContext = await this.capturePageContext(page, originalLocator);
     } catch (e) {
       console.log('   ✗ Cannot access page content (page may be closed)');
       return { locator: null, healed: false };
     }
-    
-    const attemptedLocators: string[] = [];
+
+    const provider = this.provider;
+    const providerLabel = `${provider.name}/${provider.model}`;
 
     // Get AI suggestions
-    console.log('   🤖 Sending request to OpenAI...');
-    const suggestions = await this.openAIService.suggestLocator(
-      pageHTML,
-      originalLocator,
-      error.message
-    );
-    console.log(`   🤖 OpenAI responded successfully`);
+    console.log(`   🤖 Sending request to ${provider.name}...`);
+    let suggestions: LocatorSuggestion[];
+    try {
+      suggestions = await provider.suggestLocator({
+        ...pageContext,
+        failedLocator: originalLocator,
+        errorMessage: error.message,
+        elementContext: fingerprint ? ElementFingerprinter.toPromptContext(fingerprint) : undefined,
+      });
+    } catch (e) {
+      console.log(`   ✗ ${provider.name} request failed: ${(e as Error).message}`);
+      return this.rejectHealing(record, providerLabel);
+    }
+    // Providers log their API errors and return no suggestions
+    if (suggestions.length === 0) {
+      console.log(`   ✗ ${provider.name} returned no suggestions`);
+      return this.rejectHealing(record, providerLabel);
+    }
+    console.log(`   🤖 ${provider.name} responded successfully`);
 
     console.log(`   AI suggested ${suggestions.length} alternatives`);
 
-    // Try each suggestion
-    for (const suggestion of suggestions) {
-      attemptedLocators.push(suggestion);
-      try {
-        console.log(`   Trying: ${suggestion}`);
-        
-        // Dynamically evaluate the locator
-        const locator = this.evaluateLocator(page, suggestion);
-        
-        // Check if element exists
-        await locator.waitFor({ state: 'visible', timeout: 2000 });
-        
-        console.log(`   ✓ Success! Healed with: ${suggestion}`);
-        console.log(`   📝 Recording healing event...`);
-        
-        const healingTimeMs = Date.now() - healingStartTime;
-        console.log(`   ⏱️  Healing took: ${healingTimeMs}ms (${(healingTimeMs / 1000).toFixed(2)}s)`);
-        
-        // Add to cache for future use
-        this.healingCache.set(originalLocator, suggestion);
-        console.log(`   💾 Added to cache for future tests`);
-        
-        // Record the successful healing
-        this.recordChange({
-          timestamp: new Date().toISOString(),
-          testName,
-          originalLocator,
-          healedLocator: suggestion,
-          errorMessage: error.message,
-          success: true,
-          attemptedLocators,
-          healingTimeMs,
-        });
-
-        return { locator, healed: true };
-      } catch (e) {
-        console.log(`   ✗ Failed: ${suggestion}`);
-        continue;
-      }
+    const healed = await this.tryCandidates(page, suggestions, record, 'ai');
+    if (healed) {
+      return await this.acceptHealing(record, healed, 'ai', providerLabel);
     }
 
     // If all suggestions fail, try screenshot analysis
     console.log('   Attempting screenshot analysis...');
     const screenshotPath = path.join(process.cwd(), 'test-results', `healing-${Date.now()}.png`);
-    await page.screenshot({ path: screenshotPath, fullPage: false });
+    let screenshot: Buffer;
+    try {
+      screenshot = await page.screenshot({ path: screenshotPath, fullPage: false });
+    } catch (e) {
+      console.log('   ✗ Cannot take a screenshot (page may be closed)');
+      return this.rejectHealing(record, providerLabel);
+    }
+    if (this.evidence) record.evidence.push(this.evidence.addScreenshot(record.id, 'vision', screenshot));
 
-    const visionSuggestions = await this.openAIService.analyzeScreenshotForLocator(
+    const visionSuggestions = await provider.analyzeScreenshotForLocator(
       screenshotPath,
       originalLocator,
       error.message
     );
 
-    for (const suggestion of visionSuggestions) {
-      if (attemptedLocators.includes(suggestion)) continue;
-      
-      attemptedLocators.push(suggestion);
+    const visionHealed = await this.tryCandidates(page, visionSuggestions, record, 'vision');
+    if (visionHealed) {
+      return await this.acceptHealing(record, visionHealed, 'vision', providerLabel);
+    }
+
+    return this.rejectHealing(record, providerLabel);
+  }
+
+  /**
+   * Condensed HTML and/or accessibility snapshot, per healingOptions.pageContext
+   */
+  private async capturePageContext(
+    page: Page,
+    originalLocator: string
+  ): Promise<Pick<LocatorSuggestionRequest, 'pageHTML' | 'ariaSnapshot'>> {
+    const context: Pick<LocatorSuggestionRequest, 'pageHTML' | 'ariaSnapshot'> = {};
+
+    if (this.pageContext !== 'aria') {
+      console.log('   📄 Condensing page HTML...');
+      const condensed = await this.condenser.condense(page, originalLocator);
+      context.pageHTML = condensed.html;
+      console.log(
+        `   📄 Page HTML condensed: ${condensed.originalLength} → ${condensed.html.length} characters ` +
+          `(~${condensed.estimatedTokens} tokens, ${condensed.elements} elements in ${condensed.regions} regions` +
+          `${condensed.truncated ? ', cut to the token budget' : ''})`
+      );
+    }
+
+    if (this.pageContext !== 'html') {
+      console.log('   ♿ Capturing accessibility snapshot...');
+      const aria = await this.snapshotter.capture(page);
+      context.ariaSnapshot = aria.snapshot;
+      console.log(
+        `   ♿ Accessibility snapshot: ${aria.originalLength} → ${aria.snapshot.length} characters ` +
+          `(~${aria.estimatedTokens} tokens${aria.truncated ? ', cut to the token budget' : ''})`
+      );
+    }
+
+    return context;
+  }
+
+  /**
+   * Tries each suggestion in order and returns the first one that passes verification
+   */
+  private async tryCandidates(
+    page: Page,
+    candidates: Array<string | LocatorSuggestion>,
+    record: HealingRecordInput,
+    source: HealingStage
+  ): Promise<VerifiedCandidate | null> {
+    for (const candidate of candidates) {
+      const { locator: suggestion, ...details } = typeof candidate === 'string' ? { locator: candidate } : candidate;
+      if (record.attemptedLocators.includes(suggestion)) continue;
+
+      record.attemptedLocators.push(suggestion);
+      console.log(`   Trying (from ${source}): ${suggestion}`);
+      if ('rationale' in details && details.rationale) {
+        console.log(`      ${details.strategy}, ${Math.round(details.confidence * 100)}% confident: ${details.rationale}`);
+      }
+
+      let locator: Locator;
       try {
-        console.log(`   Trying (from vision): ${suggestion}`);
-        const locator = this.evaluateLocator(page, suggestion);
-        await locator.waitFor({ state: 'visible', timeout: 2000 });
-        
-        console.log(`   ✓ Success with vision! Healed with: ${suggestion}`);
-        
-        const healingTimeMs = Date.now() - healingStartTime;
-        console.log(`   ⏱️  Healing took: ${healingTimeMs}ms (${(healingTimeMs / 1000).toFixed(2)}s)`);
-        
-        // Add to cache for future use
-        this.healingCache.set(originalLocator, suggestion);
-        console.log(`   💾 Added to cache for future tests`);
-        
-        this.recordChange({
-          timestamp: new Date().toISOString(),
-          testName,
-          originalLocator,
-          healedLocator: suggestion,
-          errorMessage: error.message,
-          success: true,
-          attemptedLocators,
-          healingTimeMs,
+        locator = this.evaluateLocator(page, suggestion);
+      } catch (e) {
+        const parseError = e as Error;
+        console.log(`   ✗ Rejected: ${parseError.message}`);
+        record.attempts.push({
+          locator: suggestion,
+          source,
+          outcome: 'invalid',
+          reason: parseError.message,
+          errorType: parseError.name,
+          ...details,
         });
+        continue;
+      }
 
-        return { locator, healed: true };
+      let reason: string | undefined;
+      let similarity: number | undefined;
+      try {
+        // Same element, not just any visible one
+        const verification = await this.verifier.verify(locator, record.action, record.fingerprint);
+        reason = verification.reason;
+        similarity = verification.similarity;
       } catch (e) {
+        reason = (e as Error).message.split('\n')[0];
+      }
+
+      if (reason) {
+        console.log(`   ✗ Rejected: ${suggestion} (${reason})`);
+        record.attempts.push({ locator: suggestion, source, outcome: 'rejected', reason, ...details });
         continue;
       }
+
+      console.log(`   ✓ Success with ${source}! Healed with: ${suggestion}`);
+      record.attempts.push({ locator: suggestion, source, outcome: 'accepted', ...details });
+      return { suggestion, locator, similarity };
+    }
+    return null;
+  }
+
+  private async acceptHealing(
+    record: HealingRecordInput,
+    healed: VerifiedCandidate,
+    healedBy: HealingStage,
+    provider: string
+  ): Promise<{ locator: Locator | null; healed: boolean }> {
+    const { suggestion, locator } = healed;
+    console.log(`   📝 Recording healing event...`);
+
+    let domSnippet: string | undefined;
+    if (this.evidence) {
+      const after = await this.evidence.highlightedScreenshot(record.id, locator);
+      const dom = await this.evidence.domSnippet(record.id, locator);
+      if (after) record.evidence.push(after);
+      if (dom) record.evidence.push(dom.evidence);
+      domSnippet = dom?.snippet;
+    }
+
+    const healingTimeMs = Date.now() - record.healingStartTime;
+    console.log(`   ⏱️  Healing took: ${healingTimeMs}ms (${(healingTimeMs / 1000).toFixed(2)}s)`);
+
+    // Add to cache for future use (cache hits already refreshed their entry).
+    // Under report-only the test never ran with the healed locator, so it is not trusted yet.
+    await this.updateCache(async cache => {
+      if (healedBy === 'cache') return;
+      if (!HealingPolicies.usesHealedLocators(this.policy)) {
+        console.log(`   💾 Not cached: the ${this.policy} policy does not use healed locators`);
+        return;
+      }
+      const confidence = healed.similarity ?? STAGE_CONFIDENCE[healedBy];
+      await cache.record(
+        {
+          originalLocator: record.originalLocator,
+          url: record.pageUrl,
+          testId: this.testMeta?.testId,
+          testName: record.testName,
+          projectName: this.testMeta?.projectName,
+        },
+        suggestion,
+        healedBy,
+        confidence
+      );
+      console.log(`   💾 Added to cache for future tests`);
+    });
+
+    // Record the successful healing
+    this.recordChange({
+      id: record.id,
+      timestamp: new Date().toISOString(),
+      testName: record.testName,
+      originalLocator: record.originalLocator,
+      healedLocator: suggestion,
+      errorMessage: record.error.message,
+      success: true,
+      attemptedLocators: record.attemptedLocators,
+      attempts: record.attempts,
+      healingTimeMs,
+      provider,
+      ...this.testFields(record),
+      healedBy,
+      domSnippet,
+      applied: HealingPolicies.usesHealedLocators(this.policy),
+    });
+
+    if (!HealingPolicies.usesHealedLocators(this.policy)) {
+      console.log(`   📋 Policy ${this.policy}: suggestion recorded, not used`);
+      return { locator: null, healed: false };
     }
+    return { locator, healed: true };
+  }
 
+  private rejectHealing(record: HealingRecordInput, provider?: string): { locator: null; healed: boolean } {
     // Record failed healing attempt
-    const healingTimeMs = Date.now() - healingStartTime;
+    const healingTimeMs = Date.now() - record.healingStartTime;
     console.log(`   ⏱️  Healing attempts took: ${healingTimeMs}ms (${(healingTimeMs / 1000).toFixed(2)}s)`);
-    
+
     this.recordChange({
+      id: record.id,
       timestamp: new Date().toISOString(),
-      testName,
-      originalLocator,
+      testName: record.testName,
+      originalLocator: record.originalLocator,
       healedLocator: '',
-      errorMessage: error.message,
+      errorMessage: record.error.message,
       success: false,
-      attemptedLocators,
+      attemptedLocators: record.attemptedLocators,
+      attempts: record.attempts,
       healingTimeMs,
+      provider,
+      ...this.testFields(record),
     });
 
     console.log('   ✗ All healing attempts failed');
     return { locator: null, healed: false };
   }
 
+  /**
+   * Cache failures (e.g. a lock held too long) never fail the test
+   */
+  private async updateCache(update: (cache: HealingCache) => Promise<unknown>) {
+    if (!this.cache) return;
+    try {
+      await update(this.cache);
+    } catch (e) {
+      console.log(`   ⚠ Could not update healing cache: ${(e as Error).message}`);
+    }
+  }
+
+  /**
+   * Builds the locator through the DSL parser; throws LocatorParseError for
+   * strings outside the grammar instead of executing them
+   */
   private evaluateLocator(page: Page, locatorString: string): Locator {
-    // Remove "page." prefix if present
-    locatorString = locatorString.replace(/^page\./, '');
-    
-    // Use Function constructor to evaluate the locator string safely
-    const locatorFn = new Function('page', `return page.${locatorString}`);
-    return locatorFn(page);
+    return LocatorParser.build(page, locatorString);
+  }
+
+  private testFields(record: HealingRecordInput): Partial<HealingChange> {
+    return {
+      location: record.location,
+      testLocation: this.testMeta?.location,
+      errorCategory: record.errorCategory,
+      pageUrl: record.pageUrl,
+      action: record.action,
+      trigger: record.trigger ?? 'action',
+      testId: this.testMeta?.testId,
+      projectName: this.testMeta?.projectName,
+      retry: this.testMeta?.retry,
+      policy: this.policy,
+      evidence: record.evidence.length > 0 ? record.evidence : undefined,
+    };
   }
 
   private recordChange(change: HealingChange) {
@@ -234,168 +624,154 @@ export class HealingContext {
     return this.changes;
   }
 
-  saveChangesToFile(outputPath: string) {
-    const dir = path.dirname(outputPath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-
-    // Load existing summary if it exists
-    let existingChanges: HealingChange[] = [];
-    if (fs.existsSync(outputPath)) {
-      try {
-        const existing = JSON.parse(fs.readFileSync(outputPath, 'utf-8'));
-        if (existing.changes && Array.isArray(existing.changes)) {
-          existingChanges = existing.changes;
-        }
-      } catch (e) {
-        console.log('⚠ Could not read existing summary, will create new');
-      }
-    }
-
-    // Merge new changes with existing (avoid duplicates based on timestamp)
-    const allChanges = [...existingChanges];
-    for (const change of this.changes) {
-      const duplicate = allChanges.find(c => 
-        c.timestamp === change.timestamp && 
-        c.originalLocator === change.originalLocator
-      );
-      if (!duplicate) {
-        allChanges.push(change);
-      }
-    }
-
-    // Save only JSON (temporary file for reporter to aggregate)
-    // Reporter will generate the final HTML
-    fs.writeFileSync(outputPath, JSON.stringify(this.changes, null, 2));
-    console.log(`\n📄 Healing data saved (will be aggregated to summary)`);
+  /**
+   * Screenshots and DOM snippets referenced by the changes' evidence
+   */
+  getEvidenceFiles(): HealingEvidenceFile[] {
+    return this.evidence?.getFiles() || [];
   }
 }
 
 // Custom Playwright page with self-healing capabilities
-export class HealingPage {
+export class HealingPage implements HealingRunner {
   constructor(
     private page: Page,
     private healingContext: HealingContext,
-    private testName: string
+    private testName: string,
+    private fingerprints?: FingerprintStore
   ) {}
 
   // Wrap common Playwright actions with healing
-  async click(locatorString: string, options?: any) {
-    try {
-      const locator = this.evaluateLocator(locatorString);
+  async click(locatorString: string, options?: Parameters<Locator['click']>[0]) {
+    await this.withHealing('click', locatorString, (locator, healed) =>
       // Use shorter timeout for initial attempt to fail fast
-      await locator.click({ ...options, timeout: 5000 });
-    } catch (error) {
-      const result = await this.healingContext.healLocator(
-        this.page,
-        'click',
-        locatorString,
-        error as Error,
-        this.testName
-      );
+      locator.click(healed ? options : { ...options, timeout: 5000 })
+    );
+  }
 
-      if (result.healed && result.locator) {
-        await result.locator.click(options);
-      } else {
-        throw error;
-      }
-    }
+  async fill(locatorString: string, value: string, options?: Parameters<Locator['fill']>[1]) {
+    await this.withHealing('fill', locatorString, (locator, healed) =>
+      locator.fill(value, healed ? options : { ...options, timeout: 5000 })
+    );
   }
 
-  async fill(locatorString: string, value: string, options?: any) {
-    try {
-      const locator = this.evaluateLocator(locatorString);
-      // Use shorter timeout for initial attempt to fail fast
-      await locator.fill(value, { ...options, timeout: 5000 });
-    } catch (error) {
-      const result = await this.healingContext.healLocator(
-        this.page,
-        'fill',
-        locatorString,
-        error as Error,
-        this.testName
-      );
+  async waitForSelector(locatorString: string, options?: Parameters<Locator['waitFor']>[0]) {
+    await this.withHealing(waitForAction(options), locatorString, locator => locator.waitFor(options));
+  }
 
-      if (result.healed && result.locator) {
-        await result.locator.fill(value, options);
-      } else {
-        throw error;
-      }
-    }
+  async isVisible(locatorString: string): Promise<boolean> {
+    return await this.withHealing('isVisible', locatorString, locator => locator.isVisible());
   }
 
-  async waitForSelector(locatorString: string, options?: any) {
+  /**
+   * Runs the action on the locator; on failure heals it and runs the action
+   * again on the healed locator. Successful runs record a fingerprint of the
+   * element so later healings can check they found the same one.
+   */
+  async withHealing<T>(
+    action: string,
+    locatorString: string,
+    run: (locator: Locator, healed: boolean) => Promise<T>,
+    trigger: HealingTrigger = 'action'
+  ): Promise<T> {
+    // Capture the spec line while the caller's frame is still on the stack
+    const location = CallSite.capture();
+
+    // Parse errors in the test's own locator are not healable
+    const locator = this.evaluateLocator(locatorString);
+
+    // Fingerprint before acting: a click may navigate away from the element
+    const before = await this.captureFingerprint(locator);
+
+    let result: T;
     try {
-      const locator = this.evaluateLocator(locatorString);
-      await locator.waitFor(options);
+      result = await run(locator, false);
     } catch (error) {
-      const result = await this.healingContext.healLocator(
+      // Disabled buttons, closed pages and failed navigations are not locator problems
+      const errorCategory = ErrorClassifier.classify(error);
+      if (!ErrorClassifier.isHealable(errorCategory)) {
+        console.log(`\n⏭️  Not healing ${locatorString}: ${errorCategory} is not a locator failure`);
+        throw error;
+      }
+
+      const healing = await this.healingContext.healLocator(
         this.page,
-        'waitFor',
+        action,
         locatorString,
         error as Error,
-        this.testName
+        this.testName,
+        {
+          fingerprint: this.fingerprints?.get(locatorString),
+          otherFingerprints: this.fingerprints?.others(locatorString),
+          location,
+          trigger,
+          errorCategory,
+        }
       );
 
-      if (result.healed && result.locator) {
-        await result.locator.waitFor(options);
-      } else {
-        throw error;
+      if (healing.healed && healing.locator) {
+        return await run(healing.locator, true);
       }
+      throw error;
+    }
+
+    const fingerprint = before ?? (await this.captureFingerprint(locator));
+    if (fingerprint) {
+      this.fingerprints!.record(locatorString, fingerprint, this.page.url());
     }
+    return result;
   }
 
-  async isVisible(locatorString: string): Promise<boolean> {
+  private async captureFingerprint(locator: Locator): Promise<ElementFingerprint | null> {
+    if (!this.fingerprints) return null;
     try {
-      const locator = this.evaluateLocator(locatorString);
-      return await locator.isVisible();
-    } catch (error) {
-      const result = await this.healingContext.healLocator(
-        this.page,
-        'isVisible',
-        locatorString,
-        error as Error,
-        this.testName
-      );
-
-      if (result.healed && result.locator) {
-        return await result.locator.isVisible();
-      } else {
-        throw error;
-      }
+      const matches = await ElementFingerprinter.captureAll(locator);
+      return matches.length === 1 ? matches[0] : null;
+    } catch (e) {
+      return null;
     }
   }
 
-  private evaluateLocator(locatorString: string): Locator {
-    locatorString = locatorString.replace(/^page\./, '');
-    const locatorFn = new Function('page', `return page.${locatorString}`);
-    return locatorFn(this.page);
+  evaluateLocator(locatorString: string): Locator {
+    return LocatorParser.build(this.page, locatorString);
   }
 
   // Proxy common page methods for convenience
-  async goto(url: string, options?: any) {
+  async goto(url: string, options?: Parameters<Page['goto']>[1]) {
     return await this.page.goto(url, options);
   }
 
-  getByRole(role: any, options?: any) {
-    return this.page.getByRole(role, options);
+  // Locator proxies return healing-aware locators; use originalPage for plain ones
+  getByRole(role: Parameters<Page['getByRole']>[0], options?: Parameters<Page['getByRole']>[1]): HealingLocator {
+    return HealingLocator.fromCall(this, null, 'getByRole', [role, options]);
+  }
+
+  getByText(text: string | RegExp, options?: Parameters<Page['getByText']>[1]): HealingLocator {
+    return HealingLocator.fromCall(this, null, 'getByText', [text, options]);
   }
 
-  getByText(text: string | RegExp, options?: any) {
-    return this.page.getByText(text, options);
+  getByLabel(text: string | RegExp, options?: Parameters<Page['getByLabel']>[1]): HealingLocator {
+    return HealingLocator.fromCall(this, null, 'getByLabel', [text, options]);
   }
 
-  getByLabel(text: string | RegExp, options?: any) {
-    return this.page.getByLabel(text, options);
+  getByPlaceholder(text: string | RegExp, options?: Parameters<Page['getByPlaceholder']>[1]): HealingLocator {
+    return HealingLocator.fromCall(this, null, 'getByPlaceholder', [text, options]);
   }
 
-  getByTestId(testId: string) {
-    return this.page.getByTestId(testId);
+  getByAltText(text: string | RegExp, options?: Parameters<Page['getByAltText']>[1]): HealingLocator {
+    return HealingLocator.fromCall(this, null, 'getByAltText', [text, options]);
   }
 
-  locator(selector: string) {
-    return this.page.locator(selector);
+  getByTitle(text: string | RegExp, options?: Parameters<Page['getByTitle']>[1]): HealingLocator {
+    return HealingLocator.fromCall(this, null, 'getByTitle', [text, options]);
+  }
+
+  getByTestId(testId: string | RegExp): HealingLocator {
+    return HealingLocator.fromCall(this, null, 'getByTestId', [testId]);
+  }
+
+  locator(selector: string, options?: HealingLocatorOptions): HealingLocator {
+    return HealingLocator.fromCall(this, null, 'locator', [selector, options]);
   }
 
   // Provide access to original page for other operations
@@ -410,25 +786,66 @@ type HealingFixtures = {
   healingPage: HealingPage;
 };
 
-export const test = base.extend<HealingFixtures>({
-  healingContext: async ({}, use, testInfo) => {
-    const apiKey = process.env.OPENAI_API_KEY;
-    const context = new HealingContext(apiKey);
+function describeHealing(change: HealingChange): string {
+  const site = change.location || change.testLocation;
+  const at = site ? ` at ${site.file}:${site.line}` : '';
+  if (!change.success) return `Could not heal ${change.originalLocator}${at}`;
+  if (change.applied === false) return `Suggested ${change.healedLocator} for ${change.originalLocator}${at} (not used: ${change.policy})`;
+  return `Healed ${change.originalLocator} -> ${change.healedLocator}${at}`;
+}
+
+export type HealingTestOptions = {
+  healingOptions: HealingOptions;
+};
+
+export const test = base.extend<HealingTestOptions & HealingFixtures>({
+  healingOptions: [{}, { option: true }],
+
+  healingContext: async ({ healingOptions }, use, testInfo) => {
+    const context = new HealingContext(createSuggestionProvider(healingOptions), healingOptions, {
+      testId: testInfo.testId,
+      projectName: testInfo.project.name,
+      retry: testInfo.retry,
+      location: {
+        file: path.relative(process.cwd(), testInfo.file).split(path.sep).join('/'),
+        line: testInfo.line,
+        column: testInfo.column,
+      },
+    });
     
     await use(context);
-    
-    // Save healing report after test
-    const outputPath = path.join(process.cwd(), 'healing-reports', `healing-${Date.now()}.json`);
+
+    // Hand the changes to HealingReporter through the test result, so parallel
+    // workers and shards never share files
     if (context.getChanges().length > 0) {
-      context.saveChangesToFile(outputPath);
+      await testInfo.attach(HEALING_ATTACHMENT, {
+        body: JSON.stringify(context.getChanges()),
+        contentType: 'application/json',
+      });
+    }
+    for (const file of context.getEvidenceFiles()) {
+      await testInfo.attach(file.name, { body: file.body, contentType: file.contentType });
+    }
+    if (HealingPolicies.annotates(context.policy)) {
+      for (const change of context.getChanges()) {
+        testInfo.annotations.push({ type: HEALING_ANNOTATION, description: describeHealing(change) });
+      }
     }
   },
 
-  healingPage: async ({ page, healingContext }, use, testInfo) => {
+  healingPage: async ({ page, healingContext, healingOptions }, use, testInfo) => {
     const testName = testInfo.title;
-    const healingPage = new HealingPage(page, healingContext, testName);
+    const fingerprints = new FingerprintStore(
+      testInfo.testId,
+      testName,
+      healingOptions.stateDir && path.join(healingOptions.stateDir, 'fingerprints')
+    );
+    const healingPage = new HealingPage(page, healingContext, testName, fingerprints);
     await use(healingPage);
+
+    // Keep fingerprints of elements that resolved, for healing them in later runs
+    fingerprints.save();
   },
 });
 
-export { expect } from '@playwright/test';
+export { expect } from './healing-expect';
@@ -1,15 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { HealingChange } from './healing-fixture';
-
-interface HealingSummary {
-  totalTests: number;
-  totalHealing: number;
-  successfulHealing: number;
-  failedHealing: number;
-  timestamp: string;
-  changes: HealingChange[];
-}
+import type { HealingRunStats, HealingSummary } from './healing-summary';
+import { HealingAnalytics, HealingAnalyzer, HealingHotSpot, LocatorTrend } from './healing-analytics';
 
 export class HealingHTMLGenerator {
   static generateHTML(summary: HealingSummary, outputPath: string): void {
@@ -49,6 +42,14 @@ export class HealingHTMLGenerator {
             font-weight: bold;
             width: 200px;
         }
+        .summary .runs th {
+            text-align: left;
+            padding: 8px;
+            border-bottom: 2px solid #ddd;
+        }
+        .summary .runs td:first-child {
+            font-weight: normal;
+        }
         .healing-item {
             border: 1px solid #ddd;
             padding: 15px;
@@ -81,6 +82,14 @@ export class HealingHTMLGenerator {
             background: #f8d7da;
             color: #721c24;
         }
+        .meta {
+            color: #555;
+            font-size: 0.85em;
+            margin-bottom: 10px;
+        }
+        .meta-location {
+            font-family: monospace;
+        }
         .locator {
             margin: 10px 0;
         }
@@ -103,9 +112,67 @@ export class HealingHTMLGenerator {
             border: 1px solid #ffc107;
             font-size: 0.9em;
         }
+        .toolbar {
+            position: sticky;
+            top: 0;
+            z-index: 1;
+            display: flex;
+            flex-wrap: wrap;
+            gap: 8px;
+            align-items: center;
+            padding: 10px;
+            margin-bottom: 10px;
+            background: #f5f5f5;
+            border: 1px solid #ddd;
+        }
+        .toolbar input[type="search"] {
+            flex: 1 1 200px;
+            padding: 5px;
+        }
+        .toolbar select {
+            max-width: 180px;
+            padding: 4px;
+        }
+        .toolbar .count {
+            color: #555;
+            font-size: 0.85em;
+        }
+        .group {
+            margin: 15px 0;
+        }
+        .group > summary {
+            cursor: pointer;
+            padding: 8px;
+            background: #eee;
+            border: 1px solid #ddd;
+            font-family: monospace;
+        }
+        .locator-diff {
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 10px;
+        }
+        .locator-diff del {
+            background: #f8d7da;
+            text-decoration: line-through;
+        }
+        .locator-diff ins {
+            background: #d4edda;
+            text-decoration: none;
+        }
+        .copy {
+            float: right;
+            margin-left: 5px;
+            font-size: 0.75em;
+            cursor: pointer;
+        }
         .attempts {
             margin-top: 10px;
         }
+        .attempts > summary {
+            cursor: pointer;
+            font-weight: bold;
+        }
         .attempts ul {
             list-style: none;
             padding: 0;
@@ -118,6 +185,43 @@ export class HealingHTMLGenerator {
             font-family: monospace;
             font-size: 0.85em;
         }
+        .attempt-reason {
+            color: #721c24;
+            font-family: Arial, sans-serif;
+            font-size: 0.9em;
+            margin-top: 3px;
+        }
+        .attempt-rationale {
+            color: #555;
+            font-family: Arial, sans-serif;
+            font-size: 0.9em;
+            margin-top: 3px;
+        }
+        .evidence {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 10px;
+            margin-top: 10px;
+        }
+        .evidence figure {
+            margin: 0;
+            font-size: 0.8em;
+            color: #555;
+        }
+        .evidence img {
+            display: block;
+            max-width: 300px;
+            max-height: 200px;
+            border: 1px solid #ddd;
+        }
+        .dom-snippet pre {
+            background: white;
+            padding: 8px;
+            border: 1px solid #ddd;
+            font-size: 0.8em;
+            white-space: pre-wrap;
+            word-break: break-all;
+        }
         .timestamp {
             color: #666;
             font-size: 0.85em;
@@ -136,9 +240,15 @@ export class HealingHTMLGenerator {
 <body>
     <h1>Self-Healing Test Report</h1>
 
+    ${summary.currentRun ? this.renderCurrentRun(summary.currentRun) : ''}
+
     <div class="summary">
-        <h2>Summary</h2>
+        <h2>All Time${summary.runs?.length ? ` (${summary.runs.length} runs)` : ''}</h2>
         <table>
+            <tr>
+                <td>Tests Run:</td>
+                <td>${summary.totalTests}</td>
+            </tr>
             <tr>
                 <td>Total Healing Attempts:</td>
                 <td>${summary.totalHealing}</td>
@@ -146,79 +256,430 @@ export class HealingHTMLGenerator {
             <tr>
                 <td>Successfully Healed:</td>
                 <td>${summary.successfulHealing}</td>
-            </tr>
+            </tr>${summary.suggestedHealing ? `
+            <tr>
+                <td>Suggested, Not Used:</td>
+                <td>${summary.suggestedHealing}</td>
+            </tr>` : ''}
             <tr>
                 <td>Failed to Heal:</td>
                 <td>${summary.failedHealing}</td>
             </tr>
             <tr>
                 <td>Success Rate:</td>
-                <td>${summary.totalHealing > 0 ? Math.round(summary.successfulHealing / summary.totalHealing * 100) : 0}%</td>
+                <td>${summary.totalHealing > 0 ? Math.round((summary.successfulHealing + summary.suggestedHealing) / summary.totalHealing * 100) : 0}%</td>
             </tr>
         </table>
     </div>
 
+    ${summary.runs?.length > 1 ? this.renderRunHistory(summary.runs) : ''}
+
+    ${this.renderAnalytics(HealingAnalyzer.analyze(summary))}
+
+    ${this.renderDetails(summary.changes)}
+
+    <footer>
+        <p>Generated on ${new Date(summary.timestamp).toLocaleString()}</p>
+        <p>${this.renderProviders(summary.changes)}</p>
+    </footer>
+    ${summary.changes.length > 0 ? this.renderScript() : ''}
+</body>
+</html>`;
+
+    const dir = path.dirname(outputPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    fs.writeFileSync(outputPath, html);
+    console.log(`\n📊 HTML report generated: ${outputPath}`);
+  }
+
+  private static renderCurrentRun(run: HealingRunStats): string {
+    const identity = [
+      run.runId,
+      run.branch,
+      run.gitSha?.slice(0, 7),
+      run.shards?.length ? `shards ${run.shards.join(', ')}` : '',
+    ].filter(Boolean);
+
+    return `
+    <div class="summary">
+        <h2>This Run</h2>
+        <div class="meta">${this.escapeHtml(identity.join(' | '))}</div>
+        <table>
+            <tr><td>Tests Run:</td><td>${run.testsRun}</td></tr>
+            <tr><td>Needed Healing:</td><td>${run.testsNeedingHealing}</td></tr>
+            <tr><td>Passed Thanks to Healing:</td><td>${run.testsPassedByHealing}</td></tr>
+            <tr><td>Still Failing:</td><td>${run.testsStillFailing}</td></tr>
+            <tr><td>Healing Attempts:</td><td>${run.totalHealing} (${run.successfulHealing} successful, ${run.suggestedHealing ? `${run.suggestedHealing} suggested only, ` : ''}${run.failedHealing} failed)</td></tr>
+        </table>
+    </div>`;
+  }
+
+  private static renderRunHistory(runs: HealingRunStats[]): string {
+    // Newest first, the last 20 runs
+    const recent = [...runs].reverse().slice(0, 20);
+    return `
+    <div class="summary">
+        <h2>Run History</h2>
+        <table class="runs">
+            <tr><th>Finished</th><th>Branch</th><th>Commit</th><th>Status</th><th>Tests</th><th>Needed Healing</th><th>Passed by Healing</th><th>Still Failing</th></tr>
+            ${recent.map(run => `
+            <tr>
+                <td>${new Date(run.finishedAt).toLocaleString()}</td>
+                <td>${this.escapeHtml(run.branch || '')}</td>
+                <td>${this.escapeHtml(run.gitSha?.slice(0, 7) || '')}</td>
+                <td>${this.escapeHtml(run.status)}</td>
+                <td>${run.testsRun}</td>
+                <td>${run.testsNeedingHealing}</td>
+                <td>${run.testsPassedByHealing}</td>
+                <td>${run.testsStillFailing}</td>
+            </tr>`).join('')}
+        </table>
+    </div>`;
+  }
+
+  private static renderAnalytics(analytics: HealingAnalytics): string {
+    const sections = [
+      this.renderTrends('Permanently Broken (healed on every run)', analytics.permanentlyBroken),
+      this.renderTrends('Flaky (healed on some runs)', analytics.flaky),
+      analytics.healedThenBroke.length > 0 ? `
+        <h3>Healed Locators That Broke Later</h3>
+        <table class="runs">
+            <tr><th>Original</th><th>Healed To</th><th>Broke</th><th>Replaced By</th></tr>
+            ${analytics.healedThenBroke.map(entry => `
+            <tr>
+                <td><code>${this.escapeHtml(entry.originalLocator)}</code></td>
+                <td><code>${this.escapeHtml(entry.healedLocator)}</code></td>
+                <td>${new Date(entry.brokeAt).toLocaleString()}</td>
+                <td>${entry.replacedBy ? `<code>${this.escapeHtml(entry.replacedBy)}</code>` : '-'}</td>
+            </tr>`).join('')}
+        </table>` : '',
+      this.renderHotSpots('Page Hot-Spots', analytics.pageHotSpots),
+      this.renderHotSpots('File Hot-Spots', analytics.fileHotSpots),
+    ].filter(Boolean);
+
+    if (sections.length === 0) return '';
+    return `
+    <div class="summary analytics">
+        <h2>Locator Trends (${analytics.runsAnalyzed} runs)</h2>
+        ${sections.join('')}
+    </div>`;
+  }
+
+  private static renderTrends(title: string, trends: LocatorTrend[]): string {
+    if (trends.length === 0) return '';
+    return `
+        <h3>${title}</h3>
+        <table class="runs">
+            <tr><th>Locator</th><th>Runs Healed</th><th>Healed To</th><th>Used At</th></tr>
+            ${trends.map(trend => `
+            <tr>
+                <td><code>${this.escapeHtml(trend.originalLocator)}</code></td>
+                <td>${trend.runsHealed} / ${trend.runsSinceFirstSeen}</td>
+                <td>${trend.healedTo.map(locator => `<code>${this.escapeHtml(locator)}</code>`).join('<br>') || '-'}</td>
+                <td>${this.escapeHtml(trend.locations.join(', ')) || '-'}</td>
+            </tr>`).join('')}
+        </table>`;
+  }
+
+  private static renderHotSpots(title: string, hotSpots: HealingHotSpot[]): string {
+    if (hotSpots.length === 0) return '';
+    return `
+        <h3>${title}</h3>
+        <table class="runs">
+            <tr><th></th><th>Healings</th><th>Failed</th><th>Locators</th><th>Tests</th></tr>
+            ${hotSpots.slice(0, 10).map(spot => `
+            <tr>
+                <td>${this.escapeHtml(spot.key)}</td>
+                <td>${spot.healings}</td>
+                <td>${spot.failedHealings}</td>
+                <td>${spot.locators}</td>
+                <td>${spot.tests}</td>
+            </tr>`).join('')}
+        </table>`;
+  }
+
+  private static renderDetails(changes: HealingChange[]): string {
+    if (changes.length === 0) {
+      return `
+    <h2>Healing Details</h2>
+    <p>No healing events recorded.</p>`;
+    }
+
+    return `
     <h2>Healing Details</h2>
-    
-    ${summary.changes.length === 0 ? `
-        <p>No healing events recorded.</p>
-    ` : summary.changes.map((change, index) => `
-        <div class="healing-item ${change.success ? 'success' : 'failed'}">
+    <div class="toolbar">
+        <input type="search" id="search" placeholder="Search tests, locators, errors...">
+        ${this.renderFilter('test', 'All tests', changes.map(c => c.testName))}
+        ${this.renderFilter('status', 'Any status', ['success', 'failed'])}
+        ${this.renderFilter('file', 'All files', changes.map(c => this.changeFile(c)))}
+        ${this.renderFilter('provider', 'All providers', changes.map(c => c.provider || 'none'))}
+        <select id="sort">
+            <option value="index">Oldest first</option>
+            <option value="newest">Newest first</option>
+            <option value="slowest">Slowest healing first</option>
+            <option value="fastest">Fastest healing first</option>
+        </select>
+        <label><input type="checkbox" id="group"> Group by original locator</label>
+        <span class="count" id="count">${changes.length} of ${changes.length}</span>
+    </div>
+    <div id="healing-list">
+        ${changes.map((change, index) => this.renderChange(change, index)).join('')}
+    </div>`;
+  }
+
+  private static renderProviders(changes: HealingChange[]): string {
+    const providers = [...new Set(changes.map(c => c.provider).filter(Boolean))].sort();
+    return providers.length > 0
+      ? `Self-Healing Test Framework using ${this.escapeHtml(providers.join(', '))}`
+      : 'Self-Healing Test Framework';
+  }
+
+  private static renderFilter(name: string, allLabel: string, values: string[]): string {
+    const options = [...new Set(values.filter(Boolean))].sort();
+    return `<select class="filter" data-filter="${name}">
+            <option value="">${allLabel}</option>
+            ${options.map(value => `<option value="${this.escapeHtml(value)}">${this.escapeHtml(value)}</option>`).join('')}
+        </select>`;
+  }
+
+  private static renderChange(change: HealingChange, index: number): string {
+    const status = change.success ? 'success' : 'failed';
+    const errorLine = change.errorMessage.split('\n')[0];
+    const search = [change.testName, change.originalLocator, change.healedLocator, this.changeFile(change), errorLine]
+      .join(' ')
+      .toLowerCase();
+    const diff = change.success ? this.diffLocators(change.originalLocator, change.healedLocator) : null;
+
+    return `
+        <div class="healing-item ${status}"
+             data-index="${index}"
+             data-test="${this.escapeHtml(change.testName)}"
+             data-status="${status}"
+             data-file="${this.escapeHtml(this.changeFile(change))}"
+             data-provider="${this.escapeHtml(change.provider || 'none')}"
+             data-locator="${this.escapeHtml(change.originalLocator)}"
+             data-time="${change.healingTimeMs || 0}"
+             data-search="${this.escapeHtml(search)}">
             <div class="test-name">
-                ${index + 1}. ${change.testName}
-                <span class="status ${change.success ? 'success' : 'failed'}">
-                    ${change.success ? 'SUCCESS' : 'FAILED'}
-                </span>
+                ${index + 1}. ${this.escapeHtml(change.testName)}
+                <span class="status ${status}">${change.success ? 'SUCCESS' : 'FAILED'}</span>
             </div>
 
-            <div class="locator">
-                <div class="locator-label">Original Locator (Failed):</div>
-                <div class="locator-code">${this.escapeHtml(change.originalLocator)}</div>
-            </div>
+            ${this.renderMeta(change)}
 
-            ${change.success ? `
+            <div class="locator-diff">
                 <div class="locator">
-                    <div class="locator-label">Healed Locator (Working):</div>
-                    <div class="locator-code">${this.escapeHtml(change.healedLocator)}</div>
+                    <div class="locator-label">Original Locator (Failed):${this.copyButton(change.originalLocator)}</div>
+                    <div class="locator-code">${diff ? diff.original : this.escapeHtml(change.originalLocator)}</div>
                 </div>
-            ` : ''}
+                ${diff ? `
+                <div class="locator">
+                    <div class="locator-label">Healed Locator (Working):${this.copyButton(change.healedLocator)}</div>
+                    <div class="locator-code">${diff.healed}</div>
+                    ${this.attemptDetails(change, change.healedLocator)}
+                </div>` : ''}
+            </div>
 
             <div class="error">
-                <strong>Error:</strong> ${this.escapeHtml(change.errorMessage.split('\\n')[0])}
+                <strong>Error${change.errorCategory ? ` (${change.errorCategory})` : ''}:</strong> ${this.escapeHtml(errorLine)}
             </div>
 
             ${change.attemptedLocators.length > 0 ? `
-                <div class="attempts">
-                    <strong>Attempted Locators (${change.attemptedLocators.length}):</strong>
+                <details class="attempts"${change.success ? '' : ' open'}>
+                    <summary>Attempted Locators (${change.attemptedLocators.length})</summary>
                     <ul>
                         ${change.attemptedLocators.map((loc, i) => `
-                            <li>${this.escapeHtml(loc)} ${i === change.attemptedLocators.indexOf(change.healedLocator) ? '✓' : '✗'}</li>
+                            <li>${this.copyButton(loc)}${this.escapeHtml(loc)} ${i === change.attemptedLocators.indexOf(change.healedLocator) ? '✓' : '✗'}${this.attemptDetails(change, loc)}</li>
                         `).join('')}
                     </ul>
-                </div>
+                </details>
             ` : ''}
 
+            ${this.renderEvidence(change)}
+
             <div class="timestamp">
                 ${new Date(change.timestamp).toLocaleString()}
                 ${change.healingTimeMs ? ` | Healing time: ${change.healingTimeMs}ms (${(change.healingTimeMs / 1000).toFixed(2)}s)` : ''}
             </div>
-        </div>
-    `).join('')}
+        </div>`;
+  }
 
-    <footer>
-        <p>Generated on ${new Date(summary.timestamp).toLocaleString()}</p>
-        <p>Self-Healing Test Framework powered by OpenAI GPT-4</p>
-    </footer>
-</body>
-</html>`;
+  /**
+   * Screenshots are linked from evidence/ next to the report (copied there by
+   * HealingReporter); the DOM snippet is embedded
+   */
+  private static renderEvidence(change: HealingChange): string {
+    const labels: { [kind: string]: string } = { before: 'Before', after: 'After (healed element)', vision: 'Sent for vision analysis' };
+    const screenshots = (change.evidence || []).filter(e => e.contentType === 'image/png' && e.path);
+    const parts = [
+      screenshots.length > 0 ? `
+            <div class="evidence">
+                ${screenshots.map(e => `
+                <figure>
+                    <a href="${this.escapeHtml(e.path!)}" target="_blank"><img src="${this.escapeHtml(e.path!)}" alt="${e.kind} screenshot" loading="lazy"></a>
+                    <figcaption>${labels[e.kind] || e.kind}</figcaption>
+                </figure>`).join('')}
+            </div>` : '',
+      change.domSnippet ? `
+            <details class="dom-snippet">
+                <summary>DOM Snippet</summary>
+                <pre>${this.escapeHtml(change.domSnippet)}</pre>
+            </details>` : '',
+    ];
+    return parts.join('');
+  }
 
-    const dir = path.dirname(outputPath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
+  private static copyButton(text: string): string {
+    return `<button type="button" class="copy" data-copy="${this.escapeHtml(text)}" title="Copy to clipboard">Copy</button>`;
+  }
+
+  /**
+   * Marks the part between the common prefix and suffix of both locators
+   */
+  private static diffLocators(original: string, healed: string): { original: string; healed: string } {
+    let prefix = 0;
+    while (prefix < original.length && prefix < healed.length && original[prefix] === healed[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < original.length - prefix &&
+      suffix < healed.length - prefix &&
+      original[original.length - 1 - suffix] === healed[healed.length - 1 - suffix]
+    ) {
+      suffix++;
     }
 
-    fs.writeFileSync(outputPath, html);
-    console.log(`\n📊 HTML report generated: ${outputPath}`);
+    const mark = (text: string, tag: string) => {
+      const changed = text.slice(prefix, text.length - suffix);
+      return (
+        this.escapeHtml(text.slice(0, prefix)) +
+        (changed ? `<${tag}>${this.escapeHtml(changed)}</${tag}>` : '') +
+        this.escapeHtml(text.slice(text.length - suffix))
+      );
+    };
+    return { original: mark(original, 'del'), healed: mark(healed, 'ins') };
+  }
+
+  private static changeFile(change: HealingChange): string {
+    return (change.location || change.testLocation)?.file || '';
+  }
+
+  /**
+   * Search, filters, sorting, grouping and copy buttons; plain inline script
+   * so the report stays a single offline file
+   */
+  private static renderScript(): string {
+    return `<script>
+    (function () {
+        var list = document.getElementById('healing-list');
+        var items = Array.prototype.slice.call(list.querySelectorAll('.healing-item'));
+        var search = document.getElementById('search');
+        var filters = Array.prototype.slice.call(document.querySelectorAll('.filter'));
+        var sort = document.getElementById('sort');
+        var group = document.getElementById('group');
+        var count = document.getElementById('count');
+
+        var comparators = {
+            index: function (a, b) { return a.dataset.index - b.dataset.index; },
+            newest: function (a, b) { return b.dataset.index - a.dataset.index; },
+            slowest: function (a, b) { return b.dataset.time - a.dataset.time || a.dataset.index - b.dataset.index; },
+            fastest: function (a, b) { return a.dataset.time - b.dataset.time || a.dataset.index - b.dataset.index; }
+        };
+
+        function update() {
+            var query = search.value.trim().toLowerCase();
+            var visible = items.filter(function (item) {
+                if (query && item.dataset.search.indexOf(query) === -1) return false;
+                return filters.every(function (filter) {
+                    return !filter.value || item.dataset[filter.dataset.filter] === filter.value;
+                });
+            }).sort(comparators[sort.value]);
+
+            list.innerHTML = '';
+            if (!group.checked) {
+                visible.forEach(function (item) { list.appendChild(item); });
+            } else {
+                var groups = Object.create(null);
+                visible.forEach(function (item) {
+                    var key = item.dataset.locator;
+                    if (!groups[key]) {
+                        groups[key] = document.createElement('details');
+                        groups[key].className = 'group';
+                        groups[key].open = true;
+                        groups[key].appendChild(document.createElement('summary'));
+                        groups[key].count = 0;
+                        list.appendChild(groups[key]);
+                    }
+                    groups[key].appendChild(item);
+                    groups[key].count++;
+                    groups[key].firstChild.textContent = key + ' (' + groups[key].count + ')';
+                });
+            }
+            count.textContent = visible.length + ' of ' + items.length;
+        }
+
+        function copy(text, button) {
+            var done = function () {
+                button.textContent = 'Copied';
+                setTimeout(function () { button.textContent = 'Copy'; }, 1500);
+            };
+            if (navigator.clipboard && window.isSecureContext) {
+                navigator.clipboard.writeText(text).then(done);
+                return;
+            }
+            var area = document.createElement('textarea');
+            area.value = text;
+            document.body.appendChild(area);
+            area.select();
+            document.execCommand('copy');
+            document.body.removeChild(area);
+            done();
+        }
+
+        search.addEventListener('input', update);
+        sort.addEventListener('change', update);
+        group.addEventListener('change', update);
+        filters.forEach(function (filter) { filter.addEventListener('change', update); });
+        document.addEventListener('click', function (event) {
+            var button = event.target.closest && event.target.closest('.copy');
+            if (button) copy(button.dataset.copy, button);
+        });
+    })();
+    </script>`;
+  }
+
+  private static renderMeta(change: HealingChange): string {
+    const site = change.location || change.testLocation;
+    const parts = [
+      site ? `<span class="meta-location">${this.escapeHtml(`${site.file}:${site.line}:${site.column}`)}</span>` : '',
+      change.action ? `${change.trigger === 'assertion' ? 'assertion' : 'action'}: ${this.escapeHtml(change.action)}` : '',
+      change.projectName ? `project: ${this.escapeHtml(change.projectName)}` : '',
+      change.retry !== undefined ? `retry: ${change.retry}` : '',
+      change.applied === false ? `not used (${this.escapeHtml(change.policy || 'report-only')})` : '',
+      change.testId ? `test id: ${this.escapeHtml(change.testId)}` : '',
+    ].filter(Boolean);
+
+    return parts.length > 0 ? `<div class="meta">${parts.join(' | ')}</div>` : '';
+  }
+
+  private static attemptDetails(change: HealingChange, locator: string): string {
+    const attempt = change.attempts?.find(a => a.locator === locator);
+    if (!attempt) return '';
+
+    let html = '';
+    if (attempt.rationale) {
+      const confidence = attempt.confidence !== undefined ? `, ${Math.round(attempt.confidence * 100)}% confident` : '';
+      html += `<div class="attempt-rationale">${this.escapeHtml(`${attempt.strategy || attempt.source}${confidence}: ${attempt.rationale}`)}</div>`;
+    }
+    if (attempt.reason) {
+      const label = attempt.errorType ? `${attempt.errorType}: ${attempt.reason}` : attempt.reason;
+      html += `<div class="attempt-reason">${this.escapeHtml(label)}</div>`;
+    }
+    return html;
   }
 
   private static escapeHtml(text: string): string {
@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HealingChange } from './healing-fixture';
+
+/**
+ * Final result of one test in a run, with the healings of all its attempts
+ */
+export interface HealingTestResult {
+  title: string;
+  /** Title path without the project and file, e.g. "Checkout › pays by card" */
+  fullTitle: string;
+  /** Spec file relative to the working directory */
+  file: string;
+  projectName?: string;
+  status: 'passed' | 'failed' | 'timedOut' | 'skipped' | 'interrupted';
+  durationMs: number;
+  /** First line of the last attempt's error */
+  error?: string;
+  changes: HealingChange[];
+}
+
+/**
+ * Writes JUnit XML with one test suite per spec file. Healed locators are
+ * warnings on the test case: a `healing.warning` property and a WARNING line in
+ * system-out, since JUnit has no warning element of its own
+ */
+export class HealingJUnitGenerator {
+  static generate(results: HealingTestResult[], timestamp: Date = new Date()): string {
+    const suites = new Map<string, HealingTestResult[]>();
+    for (const result of results) {
+      suites.set(result.file, [...(suites.get(result.file) || []), result]);
+    }
+
+    const count = (list: HealingTestResult[], match: (r: HealingTestResult) => boolean) => list.filter(match).length;
+    const seconds = (list: HealingTestResult[]) => (list.reduce((total, r) => total + r.durationMs, 0) / 1000).toFixed(3);
+    const isFailure = (r: HealingTestResult) => r.status === 'failed' || r.status === 'timedOut' || r.status === 'interrupted';
+    const warnings = (list: HealingTestResult[]) => list.reduce((total, r) => total + r.changes.length, 0);
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="self-healing" tests="${results.length}" failures="${count(results, isFailure)}" skipped="${count(results, r => r.status === 'skipped')}" time="${seconds(results)}">`,
+    ];
+
+    for (const [file, tests] of suites) {
+      lines.push(
+        `  <testsuite name="${this.escape(file)}" timestamp="${timestamp.toISOString()}" tests="${tests.length}" failures="${count(tests, isFailure)}" skipped="${count(tests, r => r.status === 'skipped')}" time="${seconds(tests)}" warnings="${warnings(tests)}">`
+      );
+      for (const test of tests) {
+        lines.push(...this.testCase(test).map(line => `    ${line}`));
+      }
+      lines.push('  </testsuite>');
+    }
+
+    lines.push('</testsuites>');
+    return lines.join('\n') + '\n';
+  }
+
+  static write(results: HealingTestResult[], outputPath: string): void {
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, this.generate(results));
+  }
+
+  private static testCase(test: HealingTestResult): string[] {
+    const name = test.projectName ? `[${test.projectName}] ${test.fullTitle}` : test.fullTitle;
+    const lines = [`<testcase name="${this.escape(name)}" classname="${this.escape(test.file)}" time="${(test.durationMs / 1000).toFixed(3)}">`];
+
+    if (test.changes.length > 0) {
+      lines.push('  <properties>');
+      for (const change of test.changes) {
+        lines.push(`    <property name="healing.warning" value="${this.escape(this.describe(change))}"/>`);
+      }
+      lines.push('  </properties>');
+    }
+
+    if (test.status === 'skipped') {
+      lines.push('  <skipped/>');
+    } else if (test.status !== 'passed') {
+      const message = test.error || `Test ${test.status}`;
+      lines.push(`  <failure message="${this.escape(message)}" type="${test.status}">${this.escape(message)}</failure>`);
+    }
+
+    if (test.changes.length > 0) {
+      const output = test.changes.map(change => `WARNING: ${this.describe(change)}`).join('\n');
+      lines.push(`  <system-out>${this.escape(output)}</system-out>`);
+    }
+
+    lines.push('</testcase>');
+    return lines;
+  }
+
+  private static describe(change: HealingChange): string {
+    const site = change.location || change.testLocation;
+    const at = site ? ` at ${site.file}:${site.line}` : '';
+    if (!change.success) return `Could not heal locator ${change.originalLocator}${at}`;
+    return change.applied === false
+      ? `Locator ${change.originalLocator} could be healed to ${change.healedLocator}${at} (not used: ${change.policy})`
+      : `Healed locator ${change.originalLocator} -> ${change.healedLocator}${at}`;
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;')
+      // Characters XML 1.0 does not allow, e.g. ANSI color codes in error messages
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+  }
+}
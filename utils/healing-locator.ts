@@ -0,0 +1,438 @@
+import { Locator } from '@playwright/test';
+import { LocatorArg, LocatorMethod, LocatorParser } from './locator-parser';
+import { waitForAction } from './locator-verifier';
+import type { HealingTrigger } from './healing-fixture';
+
+/**
+ * Runs an action against a locator string and heals the locator if the action fails.
+ * Implemented by HealingPage.
+ */
+export interface HealingRunner {
+  withHealing<T>(
+    action: string,
+    locatorString: string,
+    run: (locator: Locator, healed: boolean) => Promise<T>,
+    trigger?: HealingTrigger
+  ): Promise<T>;
+  evaluateLocator(locatorString: string): Locator;
+}
+
+// Use shorter timeout for initial attempt to fail fast
+const FIRST_ATTEMPT_TIMEOUT = 5000;
+
+function attemptOptions<O extends { timeout?: number }>(options: O | undefined, healed: boolean): O | undefined {
+  return healed ? options : ({ ...options, timeout: FIRST_ATTEMPT_TIMEOUT } as O);
+}
+
+// Playwright's PageFunctionOn, which @playwright/test does not export
+type PageFunctionOn<On, Arg, R> = string | ((on: On, arg: Arg) => R | Promise<R>);
+
+type EvaluateOptions = { timeout?: number };
+
+/**
+ * Playwright's filter options, with healing locators for has/hasNot
+ */
+export type HealingFilterOptions = Omit<NonNullable<Parameters<Locator['filter']>[0]>, 'has' | 'hasNot'> & {
+  has?: HealingLocator;
+  hasNot?: HealingLocator;
+};
+
+/**
+ * Options of locator(): the filter options without `visible`
+ */
+export type HealingLocatorOptions = Omit<HealingFilterOptions, 'visible'>;
+
+/**
+ * Healing-aware counterpart of Playwright's Locator. It is described by a
+ * locator string (the same DSL HealingPage.click() takes), so every action
+ * can go through the healing pipeline and chained locators stay healable.
+ * For Locator methods not covered here, `await resolve()` returns the plain
+ * (healed) Playwright Locator.
+ */
+export class HealingLocator {
+  constructor(
+    private runner: HealingRunner,
+    readonly selector: string
+  ) {}
+
+  /**
+   * Builds a locator from a method call, e.g. ('getByRole', 'button', { name: 'Register' })
+   */
+  static fromCall(runner: HealingRunner, parent: string | null, method: LocatorMethod, args: unknown[]): HealingLocator {
+    const call = LocatorParser.serialize([{ method, args: HealingLocator.toArgs(args) }]);
+    const selector = parent ? `${parent}.${call}` : call;
+
+    // Validates the call against the grammar
+    LocatorParser.parse(selector);
+    return new HealingLocator(runner, selector);
+  }
+
+  // Chaining
+
+  locator(selector: string, options?: HealingLocatorOptions): HealingLocator {
+    return this.chain('locator', [selector, options]);
+  }
+
+  getByRole(role: Parameters<Locator['getByRole']>[0], options?: Parameters<Locator['getByRole']>[1]): HealingLocator {
+    return this.chain('getByRole', [role, options]);
+  }
+
+  getByText(text: string | RegExp, options?: Parameters<Locator['getByText']>[1]): HealingLocator {
+    return this.chain('getByText', [text, options]);
+  }
+
+  getByLabel(text: string | RegExp, options?: Parameters<Locator['getByLabel']>[1]): HealingLocator {
+    return this.chain('getByLabel', [text, options]);
+  }
+
+  getByPlaceholder(text: string | RegExp, options?: Parameters<Locator['getByPlaceholder']>[1]): HealingLocator {
+    return this.chain('getByPlaceholder', [text, options]);
+  }
+
+  getByAltText(text: string | RegExp, options?: Parameters<Locator['getByAltText']>[1]): HealingLocator {
+    return this.chain('getByAltText', [text, options]);
+  }
+
+  getByTitle(text: string | RegExp, options?: Parameters<Locator['getByTitle']>[1]): HealingLocator {
+    return this.chain('getByTitle', [text, options]);
+  }
+
+  getByTestId(testId: string | RegExp): HealingLocator {
+    return this.chain('getByTestId', [testId]);
+  }
+
+  filter(options?: HealingFilterOptions): HealingLocator {
+    return this.chain('filter', [options]);
+  }
+
+  and(locator: HealingLocator): HealingLocator {
+    return this.chain('and', [locator]);
+  }
+
+  or(locator: HealingLocator): HealingLocator {
+    return this.chain('or', [locator]);
+  }
+
+  nth(index: number): HealingLocator {
+    return this.chain('nth', [index]);
+  }
+
+  first(): HealingLocator {
+    return this.chain('first', []);
+  }
+
+  last(): HealingLocator {
+    return this.chain('last', []);
+  }
+
+  /**
+   * One locator per current match, like Playwright's all(); an empty list is
+   * a valid answer, so nothing is healed
+   */
+  async all(): Promise<HealingLocator[]> {
+    const count = await this.locatorNow.count();
+    return Array.from({ length: count }, (_, index) => this.nth(index));
+  }
+
+  // Actions
+
+  async click(options?: Parameters<Locator['click']>[0]): Promise<void> {
+    await this.run('click', (locator, healed) => locator.click(attemptOptions(options, healed)));
+  }
+
+  async dblclick(options?: Parameters<Locator['dblclick']>[0]): Promise<void> {
+    await this.run('dblclick', (locator, healed) => locator.dblclick(attemptOptions(options, healed)));
+  }
+
+  async tap(options?: Parameters<Locator['tap']>[0]): Promise<void> {
+    await this.run('tap', (locator, healed) => locator.tap(attemptOptions(options, healed)));
+  }
+
+  async fill(value: string, options?: Parameters<Locator['fill']>[1]): Promise<void> {
+    await this.run('fill', (locator, healed) => locator.fill(value, attemptOptions(options, healed)));
+  }
+
+  async clear(options?: Parameters<Locator['clear']>[0]): Promise<void> {
+    await this.run('clear', (locator, healed) => locator.clear(attemptOptions(options, healed)));
+  }
+
+  async check(options?: Parameters<Locator['check']>[0]): Promise<void> {
+    await this.run('check', (locator, healed) => locator.check(attemptOptions(options, healed)));
+  }
+
+  async uncheck(options?: Parameters<Locator['uncheck']>[0]): Promise<void> {
+    await this.run('uncheck', (locator, healed) => locator.uncheck(attemptOptions(options, healed)));
+  }
+
+  async setChecked(checked: boolean, options?: Parameters<Locator['setChecked']>[1]): Promise<void> {
+    await this.run(checked ? 'check' : 'uncheck', (locator, healed) =>
+      locator.setChecked(checked, attemptOptions(options, healed))
+    );
+  }
+
+  async selectOption(
+    values: Parameters<Locator['selectOption']>[0],
+    options?: Parameters<Locator['selectOption']>[1]
+  ): Promise<string[]> {
+    return await this.run('selectOption', (locator, healed) =>
+      locator.selectOption(values, attemptOptions(options, healed))
+    );
+  }
+
+  async selectText(options?: Parameters<Locator['selectText']>[0]): Promise<void> {
+    await this.run('selectText', (locator, healed) => locator.selectText(attemptOptions(options, healed)));
+  }
+
+  async hover(options?: Parameters<Locator['hover']>[0]): Promise<void> {
+    await this.run('hover', (locator, healed) => locator.hover(attemptOptions(options, healed)));
+  }
+
+  async focus(options?: Parameters<Locator['focus']>[0]): Promise<void> {
+    await this.run('focus', (locator, healed) => locator.focus(attemptOptions(options, healed)));
+  }
+
+  async blur(options?: Parameters<Locator['blur']>[0]): Promise<void> {
+    await this.run('blur', (locator, healed) => locator.blur(attemptOptions(options, healed)));
+  }
+
+  async press(key: string, options?: Parameters<Locator['press']>[1]): Promise<void> {
+    await this.run('press', (locator, healed) => locator.press(key, attemptOptions(options, healed)));
+  }
+
+  /**
+   * Types text key by key (Playwright's pressSequentially)
+   */
+  async type(text: string, options?: Parameters<Locator['pressSequentially']>[1]): Promise<void> {
+    await this.run('type', (locator, healed) => locator.pressSequentially(text, attemptOptions(options, healed)));
+  }
+
+  async pressSequentially(text: string, options?: Parameters<Locator['pressSequentially']>[1]): Promise<void> {
+    await this.type(text, options);
+  }
+
+  async setInputFiles(
+    files: Parameters<Locator['setInputFiles']>[0],
+    options?: Parameters<Locator['setInputFiles']>[1]
+  ): Promise<void> {
+    await this.run('setInputFiles', (locator, healed) =>
+      locator.setInputFiles(files, attemptOptions(options, healed))
+    );
+  }
+
+  async dragTo(target: HealingLocator | Locator, options?: Parameters<Locator['dragTo']>[1]): Promise<void> {
+    const targetLocator = target instanceof HealingLocator ? await target.resolve() : target;
+    await this.run('dragTo', (locator, healed) => locator.dragTo(targetLocator, attemptOptions(options, healed)));
+  }
+
+  async dispatchEvent(
+    type: string,
+    eventInit?: Parameters<Locator['dispatchEvent']>[1],
+    options?: Parameters<Locator['dispatchEvent']>[2]
+  ): Promise<void> {
+    await this.run('dispatchEvent', (locator, healed) =>
+      locator.dispatchEvent(type, eventInit, attemptOptions(options, healed))
+    );
+  }
+
+  async scrollIntoViewIfNeeded(options?: Parameters<Locator['scrollIntoViewIfNeeded']>[0]): Promise<void> {
+    await this.run('scrollIntoViewIfNeeded', (locator, healed) =>
+      locator.scrollIntoViewIfNeeded(attemptOptions(options, healed))
+    );
+  }
+
+  async waitFor(options?: Parameters<Locator['waitFor']>[0]): Promise<void> {
+    await this.run(waitForAction(options), locator => locator.waitFor(options));
+  }
+
+  // Reads
+
+  async textContent(options?: Parameters<Locator['textContent']>[0]): Promise<string | null> {
+    return await this.run('textContent', (locator, healed) => locator.textContent(attemptOptions(options, healed)));
+  }
+
+  async innerText(options?: Parameters<Locator['innerText']>[0]): Promise<string> {
+    return await this.run('innerText', (locator, healed) => locator.innerText(attemptOptions(options, healed)));
+  }
+
+  async innerHTML(options?: Parameters<Locator['innerHTML']>[0]): Promise<string> {
+    return await this.run('innerHTML', (locator, healed) => locator.innerHTML(attemptOptions(options, healed)));
+  }
+
+  async inputValue(options?: Parameters<Locator['inputValue']>[0]): Promise<string> {
+    return await this.run('inputValue', (locator, healed) => locator.inputValue(attemptOptions(options, healed)));
+  }
+
+  async getAttribute(name: string, options?: Parameters<Locator['getAttribute']>[1]): Promise<string | null> {
+    return await this.run('getAttribute', (locator, healed) =>
+      locator.getAttribute(name, attemptOptions(options, healed))
+    );
+  }
+
+  async isVisible(): Promise<boolean> {
+    return await this.run('isVisible', locator => locator.isVisible());
+  }
+
+  /**
+   * Never healed: no match counts as hidden
+   */
+  async isHidden(): Promise<boolean> {
+    return await this.locatorNow.isHidden();
+  }
+
+  async isChecked(options?: Parameters<Locator['isChecked']>[0]): Promise<boolean> {
+    return await this.run('isChecked', (locator, healed) => locator.isChecked(attemptOptions(options, healed)));
+  }
+
+  async isEnabled(options?: Parameters<Locator['isEnabled']>[0]): Promise<boolean> {
+    return await this.run('isEnabled', (locator, healed) => locator.isEnabled(attemptOptions(options, healed)));
+  }
+
+  async isDisabled(options?: Parameters<Locator['isDisabled']>[0]): Promise<boolean> {
+    return await this.run('isDisabled', (locator, healed) => locator.isDisabled(attemptOptions(options, healed)));
+  }
+
+  async isEditable(options?: Parameters<Locator['isEditable']>[0]): Promise<boolean> {
+    return await this.run('isEditable', (locator, healed) => locator.isEditable(attemptOptions(options, healed)));
+  }
+
+  async boundingBox(options?: Parameters<Locator['boundingBox']>[0]): ReturnType<Locator['boundingBox']> {
+    return await this.run('boundingBox', (locator, healed) => locator.boundingBox(attemptOptions(options, healed)));
+  }
+
+  async screenshot(options?: Parameters<Locator['screenshot']>[0]): Promise<Buffer> {
+    return await this.run('screenshot', (locator, healed) => locator.screenshot(attemptOptions(options, healed)));
+  }
+
+  /**
+   * Runs the function on the element, healing the locator if nothing matches
+   */
+  async evaluate<R, Arg, E extends SVGElement | HTMLElement = SVGElement | HTMLElement>(
+    pageFunction: PageFunctionOn<E, Arg, R>,
+    arg: Arg,
+    options?: EvaluateOptions
+  ): Promise<R>;
+  async evaluate<R, E extends SVGElement | HTMLElement = SVGElement | HTMLElement>(
+    pageFunction: PageFunctionOn<E, void, R>,
+    options?: EvaluateOptions
+  ): Promise<R>;
+  async evaluate(pageFunction: PageFunctionOn<Element, unknown, unknown>, arg?: unknown, options?: EvaluateOptions) {
+    return await this.run('evaluate', (locator, healed) =>
+      locator.evaluate(pageFunction as PageFunctionOn<HTMLElement, unknown, unknown>, arg, attemptOptions(options, healed))
+    );
+  }
+
+  // Lists: an empty list is a valid answer, so these are never healed
+
+  async evaluateAll<R, Arg, E extends SVGElement | HTMLElement = SVGElement | HTMLElement>(
+    pageFunction: PageFunctionOn<E[], Arg, R>,
+    arg: Arg
+  ): Promise<R>;
+  async evaluateAll<R, E extends SVGElement | HTMLElement = SVGElement | HTMLElement>(
+    pageFunction: PageFunctionOn<E[], void, R>
+  ): Promise<R>;
+  async evaluateAll(pageFunction: PageFunctionOn<Element[], unknown, unknown>, arg?: unknown) {
+    return await this.locatorNow.evaluateAll(pageFunction as PageFunctionOn<HTMLElement[], unknown, unknown>, arg);
+  }
+
+  async allInnerTexts(): Promise<string[]> {
+    return await this.locatorNow.allInnerTexts();
+  }
+
+  async allTextContents(): Promise<string[]> {
+    return await this.locatorNow.allTextContents();
+  }
+
+  async count(): Promise<number> {
+    return await this.locatorNow.count();
+  }
+
+  /**
+   * Waits for the element and returns a plain Locator for it, healing the
+   * locator first if nothing matches
+   */
+  async resolve(): Promise<Locator> {
+    return await this.run('resolve', async (locator, healed) => {
+      await locator.first().waitFor({ state: 'attached', ...attemptOptions({}, healed) });
+      return locator;
+    });
+  }
+
+  /**
+   * Locator for an assertion to check: waits up to `timeout` for a match and
+   * heals the locator if there is none. When healing fails the plain locator
+   * is returned, so the assertion fails with its usual message.
+   */
+  async resolveForAssertion(matcher: string, timeout: number): Promise<Locator> {
+    try {
+      return await this.runner.withHealing(
+        matcher,
+        this.selector,
+        async (locator, healed) => {
+          if (!healed) {
+            await locator.first().waitFor({ state: 'attached', timeout });
+          }
+          return locator;
+        },
+        'assertion'
+      );
+    } catch (e) {
+      return this.locatorNow;
+    }
+  }
+
+  /**
+   * The plain, unhealed Playwright Locator
+   */
+  get locatorNow(): Locator {
+    return this.runner.evaluateLocator(this.selector);
+  }
+
+  toString(): string {
+    return this.selector;
+  }
+
+  private run<T>(action: string, run: (locator: Locator, healed: boolean) => Promise<T>): Promise<T> {
+    return this.runner.withHealing(action, this.selector, run);
+  }
+
+  private chain(method: LocatorMethod, args: unknown[]): HealingLocator {
+    return HealingLocator.fromCall(this.runner, this.selector, method, args);
+  }
+
+  private static toArgs(args: unknown[]): LocatorArg[] {
+    // Trailing undefined arguments are optional options objects
+    const trimmed = [...args];
+    while (trimmed.length > 0 && trimmed[trimmed.length - 1] === undefined) {
+      trimmed.pop();
+    }
+    return trimmed.map(arg => HealingLocator.toArg(arg));
+  }
+
+  private static toArg(value: unknown): LocatorArg {
+    if (value instanceof HealingLocator) {
+      return { type: 'locator', calls: LocatorParser.parse(value.selector) };
+    }
+    if (value instanceof RegExp) {
+      return { type: 'regex', pattern: value.source, flags: value.flags };
+    }
+    switch (typeof value) {
+      case 'string':
+        return { type: 'string', value };
+      case 'number':
+        return { type: 'number', value };
+      case 'boolean':
+        return { type: 'boolean', value };
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return {
+        type: 'object',
+        properties: Object.entries(value)
+          .filter(([, v]) => v !== undefined)
+          .map(([key, v]) => ({ key, value: HealingLocator.toArg(v) })),
+      };
+    }
+    throw new TypeError(
+      `Cannot use ${String(value)} in a healing locator; pass a HealingLocator (not a Playwright Locator) for has/hasNot`
+    );
+  }
+}
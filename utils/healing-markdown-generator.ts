@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HealingChange } from './healing-fixture';
+import type { HealingSummary } from './healing-summary';
+import { LocatorPatcher } from './locator-patcher';
+
+// Table rows before the rest is left to the HTML report
+const MAX_ROWS = 50;
+// PR comments are limited to 65536 characters
+const MAX_DIFF_LENGTH = 40000;
+
+/**
+ * Writes summary.md for the run that wrote the summary: new healings,
+ * report-only suggestions, failed healings and the suggested spec changes, as GitHub-flavored markdown that
+ * can be posted as a PR comment or job summary as is
+ */
+export class HealingMarkdownGenerator {
+  static generate(summary: HealingSummary, rootDir: string = process.cwd()): string {
+    const run = summary.currentRun;
+    const changes = run ? summary.changes.filter(c => c.runId === run.runId) : summary.changes;
+    const healed = changes.filter(c => c.success);
+    const failed = changes.filter(c => !c.success);
+
+    const lines = ['## 🏥 Self-Healing Summary', ''];
+    if (run) {
+      lines.push(
+        `**${run.testsRun}** tests run · **${run.testsNeedingHealing}** needed healing · ` +
+          `**${run.testsPassedByHealing}** passed thanks to healing · **${run.testsStillFailing}** still failing`,
+        ''
+      );
+    }
+
+    if (changes.length === 0) {
+      lines.push('No healings in this run.');
+      return lines.join('\n') + '\n';
+    }
+
+    for (const [title, rows] of [
+      ['✓ Healed locators', healed.filter(c => c.applied !== false)],
+      ['💡 Suggested, not used', healed.filter(c => c.applied === false)],
+    ] as const) {
+      if (rows.length === 0) continue;
+      lines.push(`### ${title} (${rows.length})`, '');
+      lines.push('| Test | Location | Original → Healed | Time |', '| --- | --- | --- | --- |');
+      for (const change of rows.slice(0, MAX_ROWS)) {
+        lines.push(
+          `| ${this.cell(change.testName)} | ${this.location(change)} | ${this.code(change.originalLocator)} → ${this.code(change.healedLocator)}${change.healedBy === 'cache' ? ' (cached)' : ''} | ${this.seconds(change.healingTimeMs)} |`
+        );
+      }
+      lines.push(...this.more(rows.length), '');
+    }
+
+    if (failed.length > 0) {
+      lines.push(`### ✗ Could not heal (${failed.length})`, '');
+      lines.push('| Test | Location | Locator | Cause | Tried |', '| --- | --- | --- | --- | --- |');
+      for (const change of failed.slice(0, MAX_ROWS)) {
+        lines.push(
+          `| ${this.cell(change.testName)} | ${this.location(change)} | ${this.code(change.originalLocator)} | ${change.errorCategory || '-'} | ${change.attemptedLocators.length} |`
+        );
+      }
+      lines.push(...this.more(failed.length), '');
+    }
+
+    const plan = new LocatorPatcher(rootDir).plan(healed);
+    if (plan.patches.length > 0) {
+      let diff = LocatorPatcher.diff(plan);
+      if (diff.length > MAX_DIFF_LENGTH) {
+        diff = diff.slice(0, diff.lastIndexOf('\n', MAX_DIFF_LENGTH)) + '\n# ... truncated\n';
+      }
+      const locatorCount = plan.patches.reduce((total, patch) => total + patch.replacements.length, 0);
+      const fence = diff.includes('```') ? '````' : '```';
+      lines.push(
+        '<details>',
+        `<summary>Suggested code changes (${this.plural(locatorCount, 'locator')} in ${this.plural(plan.patches.length, 'file')})</summary>`,
+        '',
+        "Apply with `git apply`, or patch this run's healings with `npm run healing:patch -- --write` (add `--all-runs` for history).",
+        '',
+        `${fence}diff`,
+        diff.trimEnd(),
+        fence,
+        '',
+        '</details>',
+        ''
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  static write(summary: HealingSummary, outputPath: string): void {
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, this.generate(summary));
+  }
+
+  private static location(change: HealingChange): string {
+    const site = change.location || change.testLocation;
+    return site ? this.cell(`${site.file}:${site.line}`) : '-';
+  }
+
+  private static more(total: number): string[] {
+    return total > MAX_ROWS ? ['', `…and ${total - MAX_ROWS} more, see the HTML report.`] : [];
+  }
+
+  private static plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+  }
+
+  private static seconds(ms: number): string {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+
+  /**
+   * Inline code that survives backticks and pipes inside a table cell
+   */
+  private static code(text: string): string {
+    // The spaces inside a double-backtick span are dropped when rendered
+    return text.includes('`') ? `\`\` ${this.cell(text)} \`\`` : `\`${this.cell(text)}\``;
+  }
+
+  private static cell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * What happens when a locator is healed:
+ * - heal: the test continues with the healed locator (default)
+ * - heal-and-warn: the same, and the test gets a warning annotation
+ * - heal-and-fail: the test continues, but the run fails so healings get reviewed
+ * - report-only: suggestions are found and verified but not used; the test fails
+ *   with its original error
+ */
+export type HealingPolicy = 'heal' | 'heal-and-warn' | 'heal-and-fail' | 'report-only';
+
+export const HEALING_POLICIES: HealingPolicy[] = ['heal', 'heal-and-warn', 'heal-and-fail', 'report-only'];
+
+/**
+ * Annotation type added to tests that needed healing (except under `heal`)
+ */
+export const HEALING_ANNOTATION = 'self-healing';
+
+export class HealingPolicies {
+  /**
+   * The configured policy, then HEALING_POLICY, then 'heal'
+   */
+  static resolve(policy?: string, env: NodeJS.ProcessEnv = process.env): HealingPolicy {
+    const value = policy || env.HEALING_POLICY || 'heal';
+    if (!HEALING_POLICIES.includes(value as HealingPolicy)) {
+      throw new Error(`Unknown healing policy "${value}". Expected one of: ${HEALING_POLICIES.join(', ')}`);
+    }
+    return value as HealingPolicy;
+  }
+
+  /**
+   * Whether healed locators replace the broken ones while the test runs
+   */
+  static usesHealedLocators(policy: HealingPolicy): boolean {
+    return policy !== 'report-only';
+  }
+
+  /**
+   * Whether tests that needed healing are annotated
+   */
+  static annotates(policy: HealingPolicy): boolean {
+    return policy !== 'heal';
+  }
+}
@@ -8,131 +8,252 @@ import {
 } from '@playwright/test/reporter';
 import * as fs from 'fs';
 import * as path from 'path';
-import { HealingHTMLGenerator } from './healing-html-generator';
-
-interface HealingSummary {
-  totalTests: number;
-  totalHealing: number;
-  successfulHealing: number;
-  failedHealing: number;
-  timestamp: string;
-  changes: any[];
+import { HEALING_ATTACHMENT, HealingChange } from './healing-fixture';
+import { HealingEvidenceRecorder } from './healing-evidence';
+import { HealingJUnitGenerator, HealingTestResult } from './healing-junit-generator';
+import { HealingSarifGenerator } from './healing-sarif-generator';
+import { HealingPolicies, HealingPolicy } from './healing-policy';
+import { HealingRunStats, HealingSummary, HealingSummaryBuilder } from './healing-summary';
+import { RunIdentity, RunInfo } from './run-info';
+
+interface TestHealingState {
+  test: TestCase;
+  /** Status of the last attempt (retries replace earlier ones) */
+  lastStatus: TestResult['status'];
+  /** Some attempt had a healing, successful or not */
+  neededHealing: boolean;
+  /** The last attempt got past a broken locator by healing it */
+  lastAttemptHealed: boolean;
+  lastDurationMs: number;
+  lastError?: string;
+  /** Healings of all attempts */
+  changes: HealingChange[];
+}
+
+export interface HealingReporterOptions {
+  /** summary.json path; the HTML report and analytics.json are written next to it */
+  outputFile?: string;
+  /** Also write JUnit XML with healed locators as test case warnings */
+  junit?: string;
+  /** Also write SARIF with one result per healed or failed locator */
+  sarif?: string;
+  /** Defaults to HEALING_POLICY, then 'heal'; `heal-and-fail` fails the run when a locator was healed */
+  policy?: HealingPolicy;
 }
 
 export default class HealingReporter implements Reporter {
-  private healingChanges: any[] = [];
+  private healingChanges: HealingChange[] = [];
+  private tests = new Map<string, TestHealingState>();
   private outputPath: string;
+  private junitPath?: string;
+  private sarifPath?: string;
+  private policy: HealingPolicy;
+  private run: RunIdentity = RunInfo.collect();
+  private startedAt = new Date();
+  private shard?: string;
 
-  constructor(options: { outputFile?: string } = {}) {
+  constructor(options: HealingReporterOptions = {}) {
     this.outputPath = options.outputFile || path.join(process.cwd(), 'healing-reports', 'summary.json');
+    this.junitPath = options.junit;
+    this.sarifPath = options.sarif;
+    this.policy = HealingPolicies.resolve(options.policy);
   }
 
   onBegin(config: FullConfig, suite: Suite) {
+    this.startedAt = new Date();
+    this.shard = config.shard ? `${config.shard.current}/${config.shard.total}` : undefined;
     console.log('\n🏥 Self-Healing Test Framework Active');
     console.log('=' .repeat(50));
   }
 
   onTestEnd(test: TestCase, result: TestResult) {
-    // Collect healing data from test results
-    // The healing context saves individual files, we'll aggregate them
+    // Each test attempt attaches the healings it made (see the healingContext fixture)
+    const attemptChanges: HealingChange[] = [];
+    for (const attachment of result.attachments) {
+      if (attachment.name !== HEALING_ATTACHMENT || !attachment.body) continue;
+      try {
+        attemptChanges.push(...JSON.parse(attachment.body.toString('utf-8')));
+      } catch (e) {
+        console.log(`⚠ Could not read healing changes of "${test.title}"`);
+      }
+    }
+    attemptChanges.forEach(change => (change.runId = this.run.runId));
+    this.copyEvidence(attemptChanges, result);
+    this.healingChanges.push(...attemptChanges);
+
+    if (result.status === 'skipped') return;
+    const state = this.tests.get(test.id);
+    this.tests.set(test.id, {
+      test,
+      lastStatus: result.status,
+      neededHealing: (state?.neededHealing ?? false) || attemptChanges.length > 0,
+      lastAttemptHealed: attemptChanges.some(c => c.success && c.applied !== false),
+      lastDurationMs: result.duration,
+      // Without ANSI colors, which XML does not allow
+      lastError: result.error?.message?.replace(/\u001b\[[0-9;]*m/g, '').split('\n')[0],
+      changes: [...(state?.changes || []), ...attemptChanges],
+    });
   }
 
-  async onEnd(result: FullResult) {
-    // Clean up temporary healing-*.json files and aggregate to summary
-    const healingReportsDir = path.join(process.cwd(), 'healing-reports');
-    
-    if (fs.existsSync(healingReportsDir)) {
-      // Process JSON files
-      const jsonFiles = fs.readdirSync(healingReportsDir).filter(f => f.startsWith('healing-') && f.endsWith('.json'));
-      
-      for (const file of jsonFiles) {
-        try {
-          const filePath = path.join(healingReportsDir, file);
-          const content = fs.readFileSync(filePath, 'utf-8');
-          const changes = JSON.parse(content);
-          this.healingChanges.push(...changes);
-          
-          // Delete the temporary file
-          fs.unlinkSync(filePath);
-        } catch (e) {
-          // Skip invalid files
-        }
-      }
+  /**
+   * Copies each change's screenshots and DOM snippet from the test attachments
+   * to evidence/ next to the summary, so the HTML report can link them
+   */
+  private copyEvidence(changes: HealingChange[], result: TestResult) {
+    const evidenceDir = path.join(path.dirname(this.outputPath), 'evidence');
+    for (const evidence of changes.flatMap(change => change.evidence || [])) {
+      const attachment = result.attachments.find(a => a.name === evidence.attachment);
+      if (!attachment) continue;
 
-      // Clean up temporary HTML files
-      const htmlFiles = fs.readdirSync(healingReportsDir).filter(f => f.startsWith('healing-') && f.endsWith('.html'));
-      for (const file of htmlFiles) {
-        try {
-          fs.unlinkSync(path.join(healingReportsDir, file));
-        } catch (e) {
-          // Skip
+      const fileName = evidence.attachment + HealingEvidenceRecorder.extension(evidence.contentType);
+      try {
+        fs.mkdirSync(evidenceDir, { recursive: true });
+        if (attachment.body) {
+          fs.writeFileSync(path.join(evidenceDir, fileName), attachment.body);
+        } else if (attachment.path) {
+          fs.copyFileSync(attachment.path, path.join(evidenceDir, fileName));
+        } else {
+          continue;
         }
+        evidence.path = `evidence/${fileName}`;
+      } catch (e) {
+        console.log(`⚠ Could not copy healing evidence ${evidence.attachment}: ${(e as Error).message}`);
       }
     }
+  }
+
+  private runStats(
+    status: FullResult['status'],
+    runChanges: HealingChange[],
+    earlierChanges: HealingChange[]
+  ): HealingRunStats {
+    const tests = [...this.tests.values()];
+    const healedTests = new Set([...earlierChanges, ...runChanges].map(c => c.testId));
+    return {
+      ...this.run,
+      startedAt: this.startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      status,
+      shards: this.shard ? [this.shard] : undefined,
+      testsRun: tests.length,
+      testsNeedingHealing: tests.filter(t => t.neededHealing).length,
+      testsPassedByHealing: tests.filter(t => t.lastStatus === 'passed' && t.lastAttemptHealed).length,
+      testsStillFailing: tests.filter(t => t.neededHealing && t.test.outcome() === 'unexpected').length,
+      totalHealing: runChanges.length,
+      successfulHealing: runChanges.filter(c => c.success && c.applied !== false).length,
+      suggestedHealing: runChanges.filter(c => c.success && c.applied === false).length,
+      failedHealing: runChanges.filter(c => !c.success).length,
+      testIds: tests.map(t => t.test.id).filter(id => healedTests.has(id)).sort(),
+    };
+  }
+
+  private testResults(): HealingTestResult[] {
+    return [...this.tests.values()].map(state => ({
+      title: state.test.title,
+      // titlePath() is ['', project, file, ...describes, title]
+      fullTitle: state.test.titlePath().slice(3).join(' › '),
+      file: path.relative(process.cwd(), state.test.location.file).split(path.sep).join('/'),
+      projectName: state.test.parent.project()?.name || undefined,
+      status: state.lastStatus,
+      durationMs: state.lastDurationMs,
+      error: state.lastError,
+      changes: state.changes,
+    }));
+  }
+
+  async onEnd(result: FullResult): Promise<{ status?: FullResult['status'] } | void> {
+    // Tests finish in any order across workers; the merge sorts them
+    const runChanges = HealingSummaryBuilder.mergeChanges([this.healingChanges]);
 
     // Always read existing summary and merge
     let existingSummary: HealingSummary | null = null;
     if (fs.existsSync(this.outputPath)) {
       try {
-        existingSummary = JSON.parse(fs.readFileSync(this.outputPath, 'utf-8'));
+        existingSummary = HealingSummaryBuilder.read(this.outputPath);
       } catch (e) {
         // Will create new
       }
     }
 
-    // Merge changes
-    const allChanges = existingSummary?.changes || [];
-    for (const change of this.healingChanges) {
-      const duplicate = allChanges.find(c => 
-        c.timestamp === change.timestamp && 
-        c.originalLocator === change.originalLocator
-      );
-      if (!duplicate) {
-        allChanges.push(change);
-      }
+    // Merge changes and add this run to the history
+    const summary = HealingSummaryBuilder.appendRun(
+      existingSummary,
+      this.runStats(result.status, runChanges, existingSummary?.changes || []),
+      runChanges
+    );
+    const run = summary.currentRun!;
+    const { htmlPath, markdownPath } = HealingSummaryBuilder.write(summary, this.outputPath);
+    if (this.junitPath) {
+      HealingJUnitGenerator.write(this.testResults(), this.junitPath);
     }
-
-    const summary: HealingSummary = {
-      totalTests: result.status === 'passed' ? 1 : 0,
-      totalHealing: allChanges.length,
-      successfulHealing: allChanges.filter(c => c.success).length,
-      failedHealing: allChanges.filter(c => !c.success).length,
-      timestamp: new Date().toISOString(),
-      changes: allChanges,
-    };
-
-    const dir = path.dirname(this.outputPath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
+    if (this.sarifPath) {
+      HealingSarifGenerator.write(runChanges, this.sarifPath);
     }
 
-    fs.writeFileSync(this.outputPath, JSON.stringify(summary, null, 2));
-
-    // Generate HTML report
-    const htmlPath = this.outputPath.replace('.json', '.html');
-    HealingHTMLGenerator.generateHTML(summary, htmlPath);
-
     console.log('\n' + '='.repeat(50));
     console.log('🏥 Self-Healing Summary');
     console.log('='.repeat(50));
-    console.log(`Total Healing Attempts: ${summary.totalHealing}`);
-    console.log(`✓ Successful: ${summary.successfulHealing}`);
-    console.log(`✗ Failed: ${summary.failedHealing}`);
+    console.log(`This run (${run.runId}${run.branch ? ` on ${run.branch}` : ''}):`);
+    console.log(`  Tests run: ${run.testsRun}`);
+    console.log(`  Needed healing: ${run.testsNeedingHealing}`);
+    console.log(`  ✓ Passed thanks to healing: ${run.testsPassedByHealing}`);
+    console.log(`  ✗ Still failing: ${run.testsStillFailing}`);
+    console.log(
+      `  Healing attempts: ${run.totalHealing} (${run.successfulHealing} successful, ` +
+        `${run.suggestedHealing ? `${run.suggestedHealing} suggested only, ` : ''}${run.failedHealing} failed)`
+    );
+    console.log(`All time (${summary.runs.length} runs):`);
+    console.log(`  Total Healing Attempts: ${summary.totalHealing}`);
+    console.log(`  ✓ Successful: ${summary.successfulHealing}`);
+    if (summary.suggestedHealing) console.log(`  💡 Suggested, not used: ${summary.suggestedHealing}`);
+    console.log(`  ✗ Failed: ${summary.failedHealing}`);
     console.log(`\n📊 JSON Report: ${this.outputPath}`);
     console.log(`📊 HTML Report: ${htmlPath}`);
+    console.log(`📊 Markdown Summary: ${markdownPath}`);
+    if (this.junitPath) console.log(`📊 JUnit XML: ${this.junitPath}`);
+    if (this.sarifPath) console.log(`📊 SARIF: ${this.sarifPath}`);
     console.log('='.repeat(50) + '\n');
 
     // Print detailed changes from this run only
-    if (this.healingChanges.length > 0) {
+    if (runChanges.length > 0) {
       console.log('Healings in this run:');
-      this.healingChanges
+      runChanges
         .filter(c => c.success)
         .forEach((change, index) => {
-          console.log(`\n${index + 1}. ${change.testName}`);
+          console.log(`\n${index + 1}. ${change.testName}${change.projectName ? ` [${change.projectName}]` : ''}`);
+          const site = change.location || change.testLocation;
+          if (site) {
+            console.log(`   At:       ${site.file}:${site.line}:${site.column}${change.action ? ` (${change.trigger === 'assertion' ? 'expect ' : ''}${change.action})` : ''}`);
+          }
           console.log(`   Original: ${change.originalLocator}`);
           console.log(`   Healed:   ${change.healedLocator}`);
+          if (change.errorCategory) {
+            console.log(`   Cause:    ${change.errorCategory}`);
+          }
         });
     }
+
+    return this.applyPolicy(result, runChanges);
+  }
+
+  /**
+   * Warns about or fails the run for healed locators, so they get patched
+   * instead of being covered by healing forever
+   */
+  private applyPolicy(result: FullResult, runChanges: HealingChange[]): { status?: FullResult['status'] } | void {
+    const used = runChanges.filter(c => c.success && c.applied !== false);
+    if (used.length === 0) return;
+
+    // The fixture's healingOptions.policy counts as well as the reporter's
+    const policies = new Set([this.policy, ...used.map(c => c.policy)]);
+    if (policies.has('heal-and-fail')) {
+      console.log(`\n✗ ${used.length} healed locators need review (policy heal-and-fail): failing the run`);
+      console.log('  Patch them with `npm run healing:patch -- --write` or fix the locators by hand');
+      return result.status === 'passed' ? { status: 'failed' } : undefined;
+    }
+    if (policies.has('heal-and-warn')) {
+      console.log(`\n⚠ ${used.length} healed locators need review (policy heal-and-warn)`);
+    }
   }
 
   printsToStdio() {
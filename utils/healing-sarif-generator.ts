@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HealingChange } from './healing-fixture';
+
+const RULES = {
+  healed: {
+    id: 'healed-locator',
+    name: 'HealedLocator',
+    shortDescription: { text: 'Locator was healed at runtime' },
+    fullDescription: { text: 'The locator no longer matched the page and the test only continued with a healed locator. Update the locator in the source.' },
+    defaultConfiguration: { level: 'warning' },
+  },
+  broken: {
+    id: 'broken-locator',
+    name: 'BrokenLocator',
+    shortDescription: { text: 'Locator is broken and could not be healed' },
+    fullDescription: { text: 'The locator no longer matched the page and no healed locator could be verified.' },
+    defaultConfiguration: { level: 'error' },
+  },
+};
+
+/**
+ * Writes SARIF 2.1.0 with one result per healed or failed locator, located at
+ * the spec (or page object) line that used it, so code scanning can annotate
+ * pull requests
+ */
+export class HealingSarifGenerator {
+  static generate(changes: HealingChange[]): object {
+    // Retries heal the same call again; the latest outcome per locator and line wins
+    const latest = new Map<string, HealingChange>();
+    for (const change of changes) {
+      const site = change.location || change.testLocation;
+      latest.set(`${site?.file}:${site?.line}:${site?.column}|${change.originalLocator}`, change);
+    }
+
+    return {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'self-healer-ai',
+              rules: [RULES.healed, RULES.broken],
+            },
+          },
+          results: [...latest.values()].map(change => this.result(change)),
+        },
+      ],
+    };
+  }
+
+  static write(changes: HealingChange[], outputPath: string): void {
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, JSON.stringify(this.generate(changes), null, 2));
+  }
+
+  private static result(change: HealingChange): object {
+    const rule = change.success ? RULES.healed : RULES.broken;
+    const site = change.location || change.testLocation;
+    const text = change.success
+      ? `Locator ${change.originalLocator} ${change.applied === false ? 'could be healed' : 'was healed'} to ${change.healedLocator} in "${change.testName}"${change.errorCategory ? ` (${change.errorCategory})` : ''}.`
+      : `Locator ${change.originalLocator} failed in "${change.testName}" and could not be healed${change.errorCategory ? ` (${change.errorCategory})` : ''}.`;
+
+    return {
+      ruleId: rule.id,
+      level: rule.defaultConfiguration.level,
+      message: { text },
+      locations: site
+        ? [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: site.file, uriBaseId: '%SRCROOT%' },
+                region: { startLine: site.line, startColumn: site.column },
+              },
+            },
+          ]
+        : [],
+      // Keeps the alert stable across runs when the line moves
+      partialFingerprints: { locatorInFile: `${site?.file}|${change.originalLocator}` },
+      properties: {
+        healedLocator: change.success ? change.healedLocator : undefined,
+        testId: change.testId,
+        projectName: change.projectName,
+        healedBy: change.healedBy,
+      },
+    };
+  }
+}
@@ -0,0 +1,230 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HealingChange } from './healing-fixture';
+import { HealingHTMLGenerator } from './healing-html-generator';
+import { HealingAnalyzer } from './healing-analytics';
+import { HealingMarkdownGenerator } from './healing-markdown-generator';
+import { RunIdentity } from './run-info';
+
+/**
+ * What one test run (all its shards and reporter invocations) did
+ */
+export interface HealingRunStats extends RunIdentity {
+  startedAt: string;
+  finishedAt: string;
+  /** Playwright's overall status, e.g. "passed" or "failed" */
+  status: string;
+  /** Shards that reported into this run, e.g. ["1/3", "2/3"] */
+  shards?: string[];
+  testsRun: number;
+  /** Tests with at least one healing attempt */
+  testsNeedingHealing: number;
+  /** Tests that passed, but only after a locator was healed */
+  testsPassedByHealing: number;
+  /** Tests that needed healing and failed anyway */
+  testsStillFailing: number;
+  totalHealing: number;
+  successfulHealing: number;
+  /** Healings found under report-only and not used, so not counted as successful */
+  suggestedHealing: number;
+  failedHealing: number;
+  /**
+   * Ids of the tests that ran, limited to tests with healings in the summary;
+   * tells analytics which runs did not run a test (other shards or projects)
+   */
+  testIds?: string[];
+}
+
+export interface HealingSummary {
+  /** All-time totals over every run in `runs` */
+  totalTests: number;
+  totalHealing: number;
+  successfulHealing: number;
+  suggestedHealing: number;
+  failedHealing: number;
+  timestamp: string;
+  /** The run that wrote this summary */
+  currentRun?: HealingRunStats;
+  /** Run history, oldest first */
+  runs: HealingRunStats[];
+  changes: HealingChange[];
+}
+
+const RUN_COUNTS = [
+  'testsRun',
+  'testsNeedingHealing',
+  'testsPassedByHealing',
+  'testsStillFailing',
+  'totalHealing',
+  'successfulHealing',
+  'suggestedHealing',
+  'failedHealing',
+] as const;
+
+/**
+ * Builds, merges, reads and writes healing summaries (summary.json plus its HTML report)
+ */
+export class HealingSummaryBuilder {
+  static build(
+    changes: HealingChange[],
+    runs: HealingRunStats[],
+    currentRun?: HealingRunStats,
+    timestamp: Date = new Date()
+  ): HealingSummary {
+    return {
+      totalTests: runs.reduce((total, run) => total + run.testsRun, 0),
+      totalHealing: changes.length,
+      successfulHealing: changes.filter(c => c.success && c.applied !== false).length,
+      suggestedHealing: changes.filter(c => c.success && c.applied === false).length,
+      failedHealing: changes.filter(c => !c.success).length,
+      timestamp: timestamp.toISOString(),
+      currentRun,
+      runs,
+      changes,
+    };
+  }
+
+  /**
+   * Adds a finished run to an existing summary (or starts a new one)
+   */
+  static appendRun(existing: HealingSummary | null, run: HealingRunStats, runChanges: HealingChange[]): HealingSummary {
+    const runs = HealingSummaryBuilder.mergeRuns([...(existing?.runs || []), run]);
+    return HealingSummaryBuilder.build(
+      HealingSummaryBuilder.mergeChanges([existing?.changes || [], runChanges]),
+      runs,
+      runs.find(r => r.runId === run.runId)
+    );
+  }
+
+  /**
+   * Combines summaries of separate runs or shards; statistics are recomputed
+   * from the merged changes and runs
+   */
+  static merge(summaries: HealingSummary[], timestamp: Date = new Date()): HealingSummary {
+    const runs = HealingSummaryBuilder.mergeRuns(summaries.flatMap(s => s.runs || []));
+
+    // Shards of the same run each report it as their current run
+    const currentRuns = HealingSummaryBuilder.mergeRuns(
+      summaries.map(s => s.currentRun).filter((run): run is HealingRunStats => !!run)
+    );
+    const currentRun = currentRuns[currentRuns.length - 1];
+
+    return HealingSummaryBuilder.build(
+      HealingSummaryBuilder.mergeChanges(summaries.map(s => s.changes)),
+      runs,
+      currentRun && runs.find(r => r.runId === currentRun.runId),
+      timestamp
+    );
+  }
+
+  /**
+   * Concatenates change lists, dropping duplicates, in timestamp order
+   */
+  static mergeChanges(lists: HealingChange[][]): HealingChange[] {
+    const merged = new Map<string, HealingChange>();
+    for (const change of lists.flat()) {
+      const key = HealingSummaryBuilder.changeKey(change);
+      if (!merged.has(key)) {
+        merged.set(key, change);
+      }
+    }
+    return [...merged.values()].sort(
+      (a, b) =>
+        a.timestamp.localeCompare(b.timestamp) ||
+        HealingSummaryBuilder.changeKey(a).localeCompare(HealingSummaryBuilder.changeKey(b))
+    );
+  }
+
+  /**
+   * Combines entries with the same run id by adding up their counts: shards of
+   * one CI run, or separate reporter invocations in the same CI job. The same
+   * shard or invocation reported twice (e.g. in two merged summaries) is
+   * counted once.
+   */
+  static mergeRuns(runs: HealingRunStats[]): HealingRunStats[] {
+    const merged = new Map<string, HealingRunStats>();
+    const seenShards = new Map<string, Set<string>>();
+    const seenInvocations = new Map<string, Set<string>>();
+
+    for (const run of runs) {
+      const existing = merged.get(run.runId);
+      if (!existing) {
+        merged.set(run.runId, { ...run, shards: run.shards && [...run.shards], testIds: run.testIds && [...run.testIds] });
+        seenShards.set(run.runId, new Set(run.shards || []));
+        seenInvocations.set(run.runId, new Set([run.startedAt]));
+        continue;
+      }
+
+      if (run.shards && run.shards.length > 0) {
+        const shards = seenShards.get(run.runId)!;
+        if (run.shards.some(shard => shards.has(shard))) {
+          continue;
+        }
+        run.shards.forEach(shard => shards.add(shard));
+        existing.shards = [...shards].sort();
+      } else {
+        // Unsharded invocations are told apart by when they started
+        const invocations = seenInvocations.get(run.runId)!;
+        if ((existing.shards && existing.shards.length > 0) || invocations.has(run.startedAt)) {
+          continue;
+        }
+        invocations.add(run.startedAt);
+      }
+
+      for (const count of RUN_COUNTS) {
+        existing[count] += run[count];
+      }
+      if (existing.testIds || run.testIds) {
+        existing.testIds = [...new Set([...(existing.testIds || []), ...(run.testIds || [])])].sort();
+      }
+      existing.startedAt = run.startedAt < existing.startedAt ? run.startedAt : existing.startedAt;
+      existing.finishedAt = run.finishedAt > existing.finishedAt ? run.finishedAt : existing.finishedAt;
+      if (run.status !== 'passed') {
+        existing.status = run.status;
+      }
+    }
+
+    return [...merged.values()].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  }
+
+  /**
+   * Changes recorded before ids were added fall back to timestamp and locator
+   */
+  static changeKey(change: HealingChange): string {
+    return change.id || `${change.timestamp}|${change.testName}|${change.originalLocator}`;
+  }
+
+  /**
+   * Reads a summary.json; throws when the file is not a healing summary
+   */
+  static read(filePath: string): HealingSummary {
+    const summary = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!summary || !Array.isArray(summary.changes)) {
+      throw new Error(`${filePath} is not a healing summary (no "changes" array)`);
+    }
+    // Summaries written before run history or suggestion counts were recorded
+    const runs: HealingRunStats[] = Array.isArray(summary.runs) ? summary.runs : [];
+    return { ...summary, runs: runs.map(run => ({ ...run, suggestedHealing: run.suggestedHealing ?? 0 })) };
+  }
+
+  /**
+   * Writes the summary JSON, analytics.json, the HTML report and the markdown
+   * summary of the current run next to it
+   */
+  static write(summary: HealingSummary, outputPath: string): { htmlPath: string; markdownPath: string } {
+    const dir = path.dirname(outputPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    fs.writeFileSync(outputPath, JSON.stringify(summary, null, 2));
+    fs.writeFileSync(path.join(dir, 'analytics.json'), JSON.stringify(HealingAnalyzer.analyze(summary), null, 2));
+
+    const htmlPath = outputPath.replace(/\.json$/, '') + '.html';
+    HealingHTMLGenerator.generateHTML(summary, htmlPath);
+
+    const markdownPath = outputPath.replace(/\.json$/, '') + '.md';
+    HealingMarkdownGenerator.write(summary, markdownPath);
+    return { htmlPath, markdownPath };
+  }
+}
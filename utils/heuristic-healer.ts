@@ -0,0 +1,331 @@
+import { Page } from '@playwright/test';
+import { ElementFingerprint, ElementFingerprinter } from './element-fingerprint';
+import { ACTION_ROLES } from './locator-verifier';
+import { TextSimilarity } from './text-similarity';
+
+/**
+ * What the failed locator string tells us about the element it was meant to find
+ */
+export interface LocatorHints {
+  id?: string;
+  name?: string;
+  testId?: string;
+  label?: string;
+  placeholder?: string;
+  text?: string;
+  role?: string;
+  roleName?: string;
+  tag?: string;
+}
+
+/**
+ * An element on the live page that could be the one the locator meant
+ */
+export type PageCandidate = ElementFingerprint;
+
+export interface HeuristicSuggestion {
+  locator: string;
+  score: number;
+  candidate: PageCandidate;
+}
+
+const CANDIDATE_SELECTOR = 'input, select, textarea, button, a[href], [role], [contenteditable="true"], [data-testid]';
+
+// Messages and headings, for locators that find an element by its text
+const TEXT_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, td, th, dt, dd, label, legend, caption, figcaption, span, strong, em';
+
+// Roles of elements that are found by their text rather than interacted with
+const TEXT_ROLES = ['heading', 'paragraph', 'listitem', 'cell', 'status', 'alert', 'note'];
+
+// Relative weight of each signal; signals without data are left out and the rest renormalised.
+// A recorded fingerprint outweighs the others combined: a sibling field with a
+// near-identical id must not beat the element the test actually used.
+const WEIGHTS = {
+  identifier: 0.6,
+  nearbyText: 0.2,
+  role: 0.15,
+  position: 0.05,
+  fingerprint: 1.2,
+};
+
+/**
+ * Deterministic, offline healer. Ranks elements on the live page against the
+ * failed locator using edit distance on id/name/label, role, nearby text and
+ * DOM position. Most breakages are typos or renamed ids, which this resolves
+ * without a model round-trip. When a fingerprint of the original element was
+ * recorded on an earlier run, candidates are matched against it first, and
+ * elements the test's other locators were recorded on are ruled out.
+ */
+export class HeuristicHealer {
+  constructor(
+    private minScore: number = 0.7,
+    private maxSuggestions: number = 3
+  ) {}
+
+  async suggest(
+    page: Page,
+    failedLocator: string,
+    action?: string,
+    expected?: ElementFingerprint,
+    others: ElementFingerprint[] = []
+  ): Promise<HeuristicSuggestion[]> {
+    const hints = HeuristicHealer.extractHints(failedLocator);
+    if (!HeuristicHealer.hasIdentifyingHint(hints) && !expected) {
+      return [];
+    }
+
+    const candidates = await HeuristicHealer.collectCandidates(page, HeuristicHealer.isTextBased(hints));
+    return this.rank(hints, candidates, action, expected, others);
+  }
+
+  rank(
+    hints: LocatorHints,
+    candidates: PageCandidate[],
+    action?: string,
+    expected?: ElementFingerprint,
+    others: ElementFingerprint[] = []
+  ): HeuristicSuggestion[] {
+    const expectedRoles = hints.role
+      ? [hints.role]
+      : expected?.role
+        ? [expected.role]
+        : action ? ACTION_ROLES[action] : undefined;
+
+    const takenIdentifiers = expected ? HeuristicHealer.takenIdentifiers(expected, others) : new Set<string>();
+
+    const suggestions: HeuristicSuggestion[] = [];
+    for (const candidate of candidates) {
+      // Another locator of this test already resolves to that element
+      if ([candidate.id, candidate.name].some(value => value && takenIdentifiers.has(value))) continue;
+
+      const score = this.score(hints, candidate, expectedRoles, expected);
+      if (score < this.minScore) continue;
+
+      const locator = HeuristicHealer.buildLocator(candidate, hints);
+      if (!locator || suggestions.some(s => s.locator === locator)) continue;
+
+      suggestions.push({ locator, score, candidate });
+    }
+
+    return suggestions
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.maxSuggestions);
+  }
+
+  private score(
+    hints: LocatorHints,
+    candidate: PageCandidate,
+    expectedRoles: string[] | undefined,
+    expected?: ElementFingerprint
+  ): number {
+    const signals: { weight: number; value: number }[] = [];
+
+    const identifier = this.identifierScore(hints, candidate);
+    signals.push({ weight: WEIGHTS.identifier, value: identifier });
+
+    const words = TextSimilarity.words(
+      [hints.id, hints.name, hints.testId, hints.label, hints.placeholder, hints.text, hints.roleName].join(' ')
+    );
+    // Text an element is found by counts as its own context
+    const ownText = HeuristicHealer.isTextBased(hints) ? candidate.text : '';
+    const nearbyWords = TextSimilarity.words(`${candidate.labelText ?? ''} ${candidate.nearbyText ?? ''} ${ownText ?? ''}`);
+    if (words.length > 0 && nearbyWords.length > 0) {
+      signals.push({ weight: WEIGHTS.nearbyText, value: TextSimilarity.wordOverlap(words, nearbyWords) });
+    }
+
+    if (expectedRoles) {
+      signals.push({ weight: WEIGHTS.role, value: expectedRoles.includes(candidate.role) ? 1 : 0 });
+    }
+
+    if (expected) {
+      // A field labelled differently from the recorded one is a different field
+      if (ElementFingerprinter.namingConflicts(expected, candidate).length > 0) {
+        return 0;
+      }
+
+      const fingerprintScore = ElementFingerprinter.compare(expected, candidate).score;
+      if (fingerprintScore < 0.7) {
+        return 0;
+      }
+      signals.push({ weight: WEIGHTS.fingerprint, value: fingerprintScore });
+      signals.push({ weight: WEIGHTS.position, value: HeuristicHealer.positionScore(expected, candidate) });
+    } else if (identifier < 0.5) {
+      // A weak identifier match cannot be rescued by the softer signals
+      return 0;
+    }
+
+    const totalWeight = signals.reduce((sum, s) => sum + s.weight, 0);
+    return signals.reduce((sum, s) => sum + s.weight * s.value, 0) / totalWeight;
+  }
+
+  /**
+   * Ids and names of the elements the test's other locators were recorded on,
+   * leaving out the expected element itself reached through another locator
+   */
+  private static takenIdentifiers(expected: ElementFingerprint, others: ElementFingerprint[]): Set<string> {
+    const taken = new Set<string>();
+    for (const other of others) {
+      if (HeuristicHealer.sameElement(expected, other)) continue;
+      if (other.id) taken.add(other.id);
+      if (other.name) taken.add(other.name);
+    }
+    return taken;
+  }
+
+  /**
+   * Named alike, or (for unnamed elements) sharing the id or name
+   */
+  private static sameElement(a: ElementFingerprint, b: ElementFingerprint): boolean {
+    if (ElementFingerprinter.namingConflicts(a, b).length > 0) return false;
+    if (a.accessibleName && b.accessibleName) return true;
+    return (!!a.id && a.id === b.id) || (!!a.name && a.name === b.name);
+  }
+
+  /**
+   * Same place in the DOM and on screen as the original element
+   */
+  private static positionScore(expected: ElementFingerprint, candidate: PageCandidate): number {
+    const pathScore = TextSimilarity.similarity(expected.ancestorPath, candidate.ancestorPath);
+    if (!expected.boundingBox || !candidate.boundingBox) {
+      return pathScore;
+    }
+
+    const distance = Math.hypot(
+      expected.boundingBox.x - candidate.boundingBox.x,
+      expected.boundingBox.y - candidate.boundingBox.y
+    );
+    return (pathScore + Math.max(0, 1 - distance / 400)) / 2;
+  }
+
+  private identifierScore(hints: LocatorHints, candidate: PageCandidate): number {
+    const pairs: [string | undefined, string[]][] = [
+      [hints.id, [candidate.id, candidate.name]],
+      [hints.name, [candidate.name, candidate.id]],
+      [hints.testId, [candidate.testId, candidate.id]],
+      [hints.label, [candidate.labelText, candidate.ariaLabel]],
+      [hints.placeholder, [candidate.placeholder]],
+      [hints.text, [candidate.text, candidate.labelText]],
+      [hints.roleName, [candidate.accessibleName]],
+    ];
+
+    let best = 0;
+    for (const [hint, values] of pairs) {
+      if (!hint) continue;
+      for (const value of values) {
+        if (!value) continue;
+        best = Math.max(best, TextSimilarity.similarity(hint, value));
+      }
+    }
+
+    // Reworded messages keep most of their words, e.g. "Account created" and "Your account was created"
+    if (hints.text && candidate.text) {
+      const hintWords = TextSimilarity.words(hints.text);
+      const textWords = TextSimilarity.words(candidate.text);
+      const overlap = (TextSimilarity.wordOverlap(hintWords, textWords) + TextSimilarity.wordOverlap(textWords, hintWords)) / 2;
+      best = Math.max(best, overlap);
+    }
+    return best;
+  }
+
+  /**
+   * Pulls ids, names, labels, roles etc. out of a Playwright locator string such as
+   * `locator('[id="customer.firstNae"]')` or `getByRole('button', { name: 'Regster' })`
+   */
+  static extractHints(locatorString: string): LocatorHints {
+    const hints: LocatorHints = {};
+    const str = `(?:'((?:[^'\\\\]|\\\\.)*)'|"((?:[^"\\\\]|\\\\.)*)"|\`((?:[^\`\\\\]|\\\\.)*)\`)`;
+    const call = (method: string) => {
+      const match = locatorString.match(new RegExp(`${method}\\(\\s*${str}`));
+      return match ? HeuristicHealer.unescape(match[1] ?? match[2] ?? match[3]) : undefined;
+    };
+
+    hints.testId = call('getByTestId');
+    hints.label = call('getByLabel');
+    hints.placeholder = call('getByPlaceholder');
+    hints.text = call('getByText');
+    hints.role = call('getByRole');
+    if (hints.role) {
+      const name = locatorString.match(new RegExp(`name\\s*:\\s*${str}`));
+      if (name) hints.roleName = HeuristicHealer.unescape(name[1] ?? name[2] ?? name[3]);
+    }
+
+    const selector = call('locator');
+    if (selector) {
+      const attr = (attribute: string) => {
+        const match = selector.match(new RegExp(`\\[${attribute}\\s*[*^$~|]?=\\s*["']?([^"'\\]]+)["']?\\s*\\]`));
+        return match ? match[1] : undefined;
+      };
+      hints.id = attr('id') ?? selector.match(/#([\w\-.:\\]+)/)?.[1]?.replace(/\\/g, '');
+      hints.name = attr('name');
+      hints.testId = hints.testId ?? attr('data-testid') ?? attr('data-test-id');
+      hints.placeholder = hints.placeholder ?? attr('placeholder');
+      hints.label = hints.label ?? attr('aria-label');
+      hints.tag = selector.match(/^\s*([a-z][a-z0-9]*)/i)?.[1]?.toLowerCase();
+      const hasText = selector.match(/:has-text\(\s*["']([^"']+)["']\s*\)/);
+      if (hasText) hints.text = hints.text ?? hasText[1];
+    }
+
+    return hints;
+  }
+
+  /**
+   * Whether the locator looks for text, e.g. getByText('Saved') or getByRole('heading', ...)
+   */
+  static isTextBased(hints: LocatorHints): boolean {
+    return !!hints.text || (!!hints.role && TEXT_ROLES.includes(hints.role));
+  }
+
+  private static hasIdentifyingHint(hints: LocatorHints): boolean {
+    return !!(hints.id || hints.name || hints.testId || hints.label || hints.placeholder || hints.text || hints.roleName);
+  }
+
+  /**
+   * Builds a locator string for the candidate, preferring the attribute the
+   * original locator used so the healed locator reads like the original
+   */
+  static buildLocator(candidate: PageCandidate, hints: LocatorHints): string | null {
+    const attrLocator = (attribute: string, value: string) =>
+      `locator('${HeuristicHealer.escapeJs(`[${attribute}="${value.replace(/["\\]/g, '\\$&')}"]`)}')`;
+    const accessibleName = candidate.accessibleName;
+
+    if (hints.testId && candidate.testId) return `getByTestId('${HeuristicHealer.escapeJs(candidate.testId)}')`;
+    if (hints.name && candidate.name) return attrLocator('name', candidate.name);
+    if (hints.role && accessibleName) {
+      return `getByRole('${candidate.role || hints.role}', { name: '${HeuristicHealer.escapeJs(accessibleName)}' })`;
+    }
+    if (hints.label && candidate.labelText) return `getByLabel('${HeuristicHealer.escapeJs(candidate.labelText)}')`;
+    if (hints.placeholder && candidate.placeholder) {
+      return `getByPlaceholder('${HeuristicHealer.escapeJs(candidate.placeholder)}')`;
+    }
+    // Fingerprint text is cut at 80 characters, too short to match exactly
+    if (hints.text && candidate.text && candidate.text.length < 80) {
+      return `getByText('${HeuristicHealer.escapeJs(candidate.text)}', { exact: true })`;
+    }
+    if (candidate.id) return attrLocator('id', candidate.id);
+    if (candidate.name) return attrLocator('name', candidate.name);
+    if (candidate.testId) return `getByTestId('${HeuristicHealer.escapeJs(candidate.testId)}')`;
+    if (candidate.role && accessibleName) {
+      return `getByRole('${candidate.role}', { name: '${HeuristicHealer.escapeJs(accessibleName)}' })`;
+    }
+    return null;
+  }
+
+  /**
+   * Collects every visible, interactive or labelled element on the page, and
+   * with `includeText` the elements that carry text such as headings and messages
+   */
+  static async collectCandidates(page: Page, includeText: boolean = false): Promise<PageCandidate[]> {
+    const selector = includeText ? `${CANDIDATE_SELECTOR}, ${TEXT_SELECTOR}` : CANDIDATE_SELECTOR;
+    const fingerprints = await ElementFingerprinter.captureAll(page.locator(selector));
+    return fingerprints
+      .filter(fingerprint => fingerprint.visible && fingerprint.type !== 'hidden');
+  }
+
+  private static unescape(value: string): string {
+    return value.replace(/\\(.)/g, '$1');
+  }
+
+  private static escapeJs(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+  }
+}
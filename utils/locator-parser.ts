@@ -0,0 +1,472 @@
+import { Page, Locator } from '@playwright/test';
+
+/**
+ * Parser and builder for the subset of the Playwright locator DSL that tests
+ * and models use to describe elements, e.g.
+ *
+ *   getByRole('button', { name: 'Register' }).nth(1)
+ *   locator('form', { has: getByLabel('First Name') }).filter({ hasText: /name/i }).first()
+ *
+ * Locator strings coming back from a model are untrusted, so they are parsed
+ * against this grammar and turned into `Locator` calls directly instead of
+ * being evaluated as JavaScript.
+ */
+
+export type LocatorMethod =
+  | 'getByRole'
+  | 'getByLabel'
+  | 'getByText'
+  | 'getByTestId'
+  | 'getByPlaceholder'
+  | 'getByAltText'
+  | 'getByTitle'
+  | 'locator'
+  | 'filter'
+  | 'and'
+  | 'or'
+  | 'nth'
+  | 'first'
+  | 'last';
+
+export type LocatorArg =
+  | { type: 'string'; value: string }
+  | { type: 'regex'; pattern: string; flags: string }
+  | { type: 'number'; value: number }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'object'; properties: { key: string; value: LocatorArg }[] }
+  | { type: 'locator'; calls: LocatorCall[] };
+
+export interface LocatorCall {
+  method: LocatorMethod;
+  args: LocatorArg[];
+}
+
+export class LocatorParseError extends Error {
+  constructor(
+    message: string,
+    readonly input: string,
+    readonly position: number
+  ) {
+    super(`${message} at position ${position} in: ${input}`);
+    this.name = 'LocatorParseError';
+  }
+}
+
+type ArgKind = 'string' | 'regex' | 'number' | 'boolean' | 'locator';
+
+interface MethodSignature {
+  /** Accepted kinds for each positional argument; `required` is the minimum count */
+  params: { kinds: ArgKind[] | 'options'; options?: { [key: string]: ArgKind[] } }[];
+  required: number;
+  /** Whether the method may start a chain (called on the page) */
+  root: boolean;
+}
+
+const TEXT = { kinds: ['string', 'regex'] as ArgKind[] };
+const EXACT_OPTIONS = { kinds: 'options' as const, options: { exact: ['boolean'] as ArgKind[] } };
+const FILTER_OPTIONS: { [key: string]: ArgKind[] } = {
+  has: ['locator'],
+  hasNot: ['locator'],
+  hasText: ['string', 'regex'],
+  hasNotText: ['string', 'regex'],
+};
+
+const SIGNATURES: { [method in LocatorMethod]: MethodSignature } = {
+  getByRole: {
+    params: [
+      { kinds: ['string'] },
+      {
+        kinds: 'options',
+        options: {
+          name: ['string', 'regex'],
+          exact: ['boolean'],
+          checked: ['boolean'],
+          disabled: ['boolean'],
+          expanded: ['boolean'],
+          includeHidden: ['boolean'],
+          level: ['number'],
+          pressed: ['boolean'],
+          selected: ['boolean'],
+        },
+      },
+    ],
+    required: 1,
+    root: true,
+  },
+  getByLabel: { params: [TEXT, EXACT_OPTIONS], required: 1, root: true },
+  getByText: { params: [TEXT, EXACT_OPTIONS], required: 1, root: true },
+  getByPlaceholder: { params: [TEXT, EXACT_OPTIONS], required: 1, root: true },
+  getByAltText: { params: [TEXT, EXACT_OPTIONS], required: 1, root: true },
+  getByTitle: { params: [TEXT, EXACT_OPTIONS], required: 1, root: true },
+  getByTestId: { params: [TEXT], required: 1, root: true },
+  locator: { params: [{ kinds: ['string'] }, { kinds: 'options', options: FILTER_OPTIONS }], required: 1, root: true },
+  filter: {
+    params: [{ kinds: 'options', options: { ...FILTER_OPTIONS, visible: ['boolean'] } }],
+    required: 0,
+    root: false,
+  },
+  and: { params: [{ kinds: ['locator'] }], required: 1, root: false },
+  or: { params: [{ kinds: ['locator'] }], required: 1, root: false },
+  nth: { params: [{ kinds: ['number'] }], required: 1, root: false },
+  first: { params: [], required: 0, root: false },
+  last: { params: [], required: 0, root: false },
+};
+
+export class LocatorParser {
+  private position = 0;
+
+  private constructor(private input: string) {}
+
+  /**
+   * Parses a locator string into its chain of calls. A leading `page.` is allowed.
+   * Throws LocatorParseError for anything outside the grammar.
+   */
+  static parse(input: string): LocatorCall[] {
+    const parser = new LocatorParser(input);
+    const calls = parser.parseChain();
+    parser.skipWhitespace();
+    if (parser.position < input.length) {
+      parser.fail(`Unexpected "${input[parser.position]}"`);
+    }
+    return calls;
+  }
+
+  /**
+   * Parses the string and builds the Locator on the given page
+   */
+  static build(page: Page, input: string): Locator {
+    return LocatorParser.buildCalls(page, LocatorParser.parse(input));
+  }
+
+  static buildCalls(page: Page, calls: LocatorCall[]): Locator {
+    let target: any = page;
+    for (const call of calls) {
+      const args = call.args.map(arg => LocatorParser.toValue(page, arg));
+      target = target[call.method](...args);
+    }
+    return target as Locator;
+  }
+
+  /**
+   * Turns a parsed chain back into a canonical locator string
+   */
+  static serialize(calls: LocatorCall[]): string {
+    return calls
+      .map(call => `${call.method}(${call.args.map(arg => LocatorParser.serializeArg(arg)).join(', ')})`)
+      .join('.');
+  }
+
+  /**
+   * Quotes a string the way serialized locators do: single quotes, minimal escaping
+   */
+  static quote(value: string): string {
+    const escaped = value
+      .replace(/\\/g, '\\\\')
+      .replace(/'/g, "\\'")
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t');
+    return `'${escaped}'`;
+  }
+
+  private static serializeArg(arg: LocatorArg): string {
+    switch (arg.type) {
+      case 'string':
+        return LocatorParser.quote(arg.value);
+      case 'regex':
+        return `/${arg.pattern}/${arg.flags}`;
+      case 'number':
+      case 'boolean':
+        return String(arg.value);
+      case 'object':
+        if (arg.properties.length === 0) return '{}';
+        return `{ ${arg.properties.map(p => `${p.key}: ${LocatorParser.serializeArg(p.value)}`).join(', ')} }`;
+      case 'locator':
+        return LocatorParser.serialize(arg.calls);
+    }
+  }
+
+  private static toValue(page: Page, arg: LocatorArg): unknown {
+    switch (arg.type) {
+      case 'string':
+      case 'number':
+      case 'boolean':
+        return arg.value;
+      case 'regex':
+        return new RegExp(arg.pattern, arg.flags);
+      case 'object':
+        return Object.fromEntries(arg.properties.map(p => [p.key, LocatorParser.toValue(page, p.value)]));
+      case 'locator':
+        return LocatorParser.buildCalls(page, arg.calls);
+    }
+  }
+
+  private parseChain(): LocatorCall[] {
+    this.skipWhitespace();
+    if (this.input.startsWith('page', this.position) && this.peekAfter('page') === '.') {
+      this.position += 'page'.length;
+      this.expect('.');
+    }
+
+    const calls: LocatorCall[] = [this.parseCall(true)];
+    this.skipWhitespace();
+    while (this.peek() === '.') {
+      this.position++;
+      calls.push(this.parseCall(false));
+      this.skipWhitespace();
+    }
+    return calls;
+  }
+
+  private parseCall(root: boolean): LocatorCall {
+    this.skipWhitespace();
+    const start = this.position;
+    const name = this.parseIdentifier();
+    const signature = (SIGNATURES as { [name: string]: MethodSignature | undefined })[name];
+    if (!signature || !Object.prototype.hasOwnProperty.call(SIGNATURES, name)) {
+      this.fail(`Unsupported method "${name}"`, start);
+    }
+    if (root && !signature.root) {
+      this.fail(`"${name}" cannot start a locator`, start);
+    }
+
+    this.expect('(');
+    const args: LocatorArg[] = [];
+    this.skipWhitespace();
+    while (this.peek() !== ')') {
+      args.push(this.parseValue());
+      this.skipWhitespace();
+      if (this.peek() === ',') {
+        this.position++;
+        this.skipWhitespace();
+      } else if (this.peek() !== ')') {
+        this.fail('Expected "," or ")"');
+      }
+    }
+    this.expect(')');
+
+    this.checkArguments(name as LocatorMethod, signature, args, start);
+    return { method: name as LocatorMethod, args };
+  }
+
+  private checkArguments(method: LocatorMethod, signature: MethodSignature, args: LocatorArg[], start: number) {
+    if (args.length < signature.required || args.length > signature.params.length) {
+      this.fail(`${method}() takes ${signature.required}-${signature.params.length} arguments, got ${args.length}`, start);
+    }
+
+    args.forEach((arg, index) => {
+      const param = signature.params[index];
+      if (param.kinds === 'options') {
+        if (arg.type !== 'object') {
+          this.fail(`${method}() argument ${index + 1} must be an options object`, start);
+        }
+        for (const property of arg.properties) {
+          const allowed = param.options![property.key];
+          if (!allowed || !Object.prototype.hasOwnProperty.call(param.options, property.key)) {
+            this.fail(`${method}() does not accept option "${property.key}"`, start);
+          }
+          if (!allowed.includes(property.value.type as ArgKind)) {
+            this.fail(`${method}() option "${property.key}" must be ${allowed.join(' or ')}`, start);
+          }
+        }
+      } else if (!param.kinds.includes(arg.type as ArgKind)) {
+        this.fail(`${method}() argument ${index + 1} must be ${param.kinds.join(' or ')}`, start);
+      }
+    });
+  }
+
+  private parseValue(): LocatorArg {
+    this.skipWhitespace();
+    const ch = this.peek();
+
+    if (ch === "'" || ch === '"' || ch === '`') {
+      return { type: 'string', value: this.parseString() };
+    }
+    if (ch === '/') {
+      return this.parseRegex();
+    }
+    if (ch === '{') {
+      return this.parseObject();
+    }
+    if (ch === '-' || (ch >= '0' && ch <= '9')) {
+      return { type: 'number', value: this.parseNumber() };
+    }
+    if (this.matchKeyword('true')) return { type: 'boolean', value: true };
+    if (this.matchKeyword('false')) return { type: 'boolean', value: false };
+    if (/[A-Za-z_$]/.test(ch)) {
+      return { type: 'locator', calls: this.parseChain() };
+    }
+
+    this.fail(ch ? `Unexpected "${ch}"` : 'Unexpected end of input');
+  }
+
+  private parseObject(): LocatorArg {
+    this.expect('{');
+    const properties: { key: string; value: LocatorArg }[] = [];
+    this.skipWhitespace();
+    while (this.peek() !== '}') {
+      const ch = this.peek();
+      const start = this.position;
+      const key = ch === "'" || ch === '"' ? this.parseString() : this.parseIdentifier();
+      if (properties.some(p => p.key === key)) {
+        this.fail(`Duplicate option "${key}"`, start);
+      }
+      this.expect(':');
+      properties.push({ key, value: this.parseValue() });
+      this.skipWhitespace();
+      if (this.peek() === ',') {
+        this.position++;
+        this.skipWhitespace();
+      } else if (this.peek() !== '}') {
+        this.fail('Expected "," or "}"');
+      }
+    }
+    this.expect('}');
+    return { type: 'object', properties };
+  }
+
+  private parseString(): string {
+    const quote = this.input[this.position];
+    const start = this.position;
+    this.position++;
+    let value = '';
+
+    while (this.position < this.input.length) {
+      const ch = this.input[this.position];
+      if (ch === quote) {
+        this.position++;
+        return value;
+      }
+      if (quote === '`' && ch === '$' && this.input[this.position + 1] === '{') {
+        this.fail('Template expressions are not allowed');
+      }
+      if ((ch === '\n' || ch === '\r') && quote !== '`') {
+        this.fail('Unterminated string', start);
+      }
+      if (ch === '\\') {
+        value += this.parseEscape();
+        continue;
+      }
+      value += ch;
+      this.position++;
+    }
+
+    this.fail('Unterminated string', start);
+  }
+
+  private parseEscape(): string {
+    this.position++; // backslash
+    const ch = this.input[this.position];
+    this.position++;
+    switch (ch) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case 'v': return '\v';
+      case '0': return '\0';
+      case 'x': return this.parseHexEscape(2);
+      case 'u': return this.parseHexEscape(4);
+      case undefined: this.fail('Unterminated string');
+      default: return ch;
+    }
+  }
+
+  private parseHexEscape(length: number): string {
+    const hex = this.input.substr(this.position, length);
+    if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) {
+      this.fail('Invalid escape sequence');
+    }
+    this.position += length;
+    return String.fromCharCode(parseInt(hex, 16));
+  }
+
+  private parseRegex(): LocatorArg {
+    const start = this.position;
+    this.position++; // opening slash
+    let pattern = '';
+    let inClass = false;
+
+    while (this.position < this.input.length) {
+      const ch = this.input[this.position];
+      if (ch === '\\') {
+        pattern += ch + (this.input[this.position + 1] ?? '');
+        this.position += 2;
+        continue;
+      }
+      if (ch === '\n') break;
+      if (ch === '[') inClass = true;
+      if (ch === ']') inClass = false;
+      if (ch === '/' && !inClass) {
+        this.position++;
+        const flags = this.input.slice(this.position).match(/^[a-z]*/)![0];
+        this.position += flags.length;
+        try {
+          new RegExp(pattern, flags);
+        } catch (e) {
+          this.fail(`Invalid regular expression: ${(e as Error).message}`, start);
+        }
+        return { type: 'regex', pattern, flags };
+      }
+      pattern += ch;
+      this.position++;
+    }
+
+    this.fail('Unterminated regular expression', start);
+  }
+
+  private parseNumber(): number {
+    const match = this.input.slice(this.position).match(/^-?\d+(\.\d+)?/);
+    if (!match) {
+      this.fail('Invalid number');
+    }
+    this.position += match[0].length;
+    return Number(match[0]);
+  }
+
+  private parseIdentifier(): string {
+    const match = this.input.slice(this.position).match(/^[A-Za-z_$][\w$]*/);
+    if (!match) {
+      const ch = this.peek();
+      this.fail(ch ? `Unexpected "${ch}"` : 'Unexpected end of input');
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    if (this.input.startsWith(keyword, this.position) && !/[\w$]/.test(this.input[this.position + keyword.length] ?? '')) {
+      this.position += keyword.length;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(ch: string) {
+    this.skipWhitespace();
+    if (this.peek() !== ch) {
+      this.fail(`Expected "${ch}"`);
+    }
+    this.position++;
+  }
+
+  private peek(): string {
+    return this.input[this.position] ?? '';
+  }
+
+  private peekAfter(word: string): string {
+    const rest = this.input.slice(this.position + word.length);
+    return rest.trimStart()[0] ?? '';
+  }
+
+  private skipWhitespace() {
+    while (/\s/.test(this.input[this.position] ?? '')) {
+      this.position++;
+    }
+  }
+
+  private fail(message: string, position: number = this.position): never {
+    throw new LocatorParseError(message, this.input, position);
+  }
+}
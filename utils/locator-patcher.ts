@@ -0,0 +1,273 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HealingChange } from './healing-fixture';
+
+export interface LocatorReplacement {
+  line: number;
+  column: number;
+  originalLocator: string;
+  healedLocator: string;
+}
+
+export interface FilePatch {
+  /** Path relative to the root directory */
+  file: string;
+  original: string;
+  patched: string;
+  replacements: LocatorReplacement[];
+}
+
+export interface SkippedHealing {
+  originalLocator: string;
+  healedLocator: string;
+  file?: string;
+  line?: number;
+  reason: string;
+}
+
+export interface PatchPlan {
+  patches: FilePatch[];
+  skipped: SkippedHealing[];
+}
+
+interface StringLiteral {
+  value: string;
+  quote: string;
+  start: number;
+  end: number;
+}
+
+// A multi-line call reports the line of the call, the literal may follow it
+const LINES_TO_SEARCH = 4;
+
+/**
+ * Rewrites broken locator string literals in spec files with the locators
+ * they were healed to, using the call site recorded with each healing.
+ */
+export class LocatorPatcher {
+  constructor(private rootDir: string = process.cwd()) {}
+
+  plan(changes: HealingChange[]): PatchPlan {
+    const skipped: SkippedHealing[] = [];
+    const sites = new Map<string, HealingChange[]>();
+
+    for (const change of changes) {
+      if (!change.success || !change.healedLocator) {
+        skipped.push(this.skip(change, 'healing failed'));
+        continue;
+      }
+      if (!change.location) {
+        skipped.push(this.skip(change, 'no call site recorded'));
+        continue;
+      }
+
+      const key = `${change.location.file}:${change.location.line}:${change.originalLocator}`;
+      sites.set(key, [...(sites.get(key) || []), change]);
+    }
+
+    const replacementsByFile = new Map<string, LocatorReplacement[]>();
+    const contents = new Map<string, string[]>();
+
+    for (const siteChanges of sites.values()) {
+      const change = siteChanges[0];
+      const { file, line } = change.location!;
+
+      const healedTo = [...new Set(siteChanges.map(c => c.healedLocator))];
+      if (healedTo.length > 1) {
+        skipped.push(this.skip(change, `ambiguous: healed to ${healedTo.join(' | ')}`));
+        continue;
+      }
+
+      const absolutePath = path.resolve(this.rootDir, file);
+      if (!absolutePath.startsWith(path.resolve(this.rootDir) + path.sep) || !fs.existsSync(absolutePath)) {
+        skipped.push(this.skip(change, 'source file not found'));
+        continue;
+      }
+
+      if (!contents.has(file)) {
+        contents.set(file, fs.readFileSync(absolutePath, 'utf-8').split('\n'));
+      }
+      const lines = contents.get(file)!;
+
+      const found = this.findLiteral(lines, line, change.originalLocator);
+      if (typeof found === 'string') {
+        const alreadyPatched = this.findLiteral(lines, line, change.healedLocator);
+        skipped.push(this.skip(change, typeof alreadyPatched === 'string' ? found : 'already patched'));
+        continue;
+      }
+
+      const replacements = replacementsByFile.get(file) || [];
+      if (replacements.some(r => r.line === found.line && r.column === found.literal.start + 1)) {
+        continue;
+      }
+      replacements.push({
+        line: found.line,
+        column: found.literal.start + 1,
+        originalLocator: change.originalLocator,
+        healedLocator: change.healedLocator,
+      });
+      replacementsByFile.set(file, replacements);
+    }
+
+    const patches: FilePatch[] = [];
+    for (const [file, replacements] of replacementsByFile) {
+      const lines = contents.get(file)!;
+      const patchedLines = [...lines];
+
+      // Right to left so earlier columns on the same line stay valid
+      const ordered = [...replacements].sort((a, b) => b.line - a.line || b.column - a.column);
+      for (const replacement of ordered) {
+        const text = patchedLines[replacement.line - 1];
+        const literal = LocatorPatcher.scanStringLiterals(text).find(l => l.start === replacement.column - 1)!;
+        const quoted = LocatorPatcher.quote(replacement.healedLocator, literal.quote);
+        patchedLines[replacement.line - 1] = text.slice(0, literal.start) + quoted + text.slice(literal.end);
+      }
+
+      patches.push({
+        file,
+        original: lines.join('\n'),
+        patched: patchedLines.join('\n'),
+        replacements: replacements.sort((a, b) => a.line - b.line),
+      });
+    }
+
+    return { patches: patches.sort((a, b) => a.file.localeCompare(b.file)), skipped };
+  }
+
+  apply(plan: PatchPlan) {
+    for (const patch of plan.patches) {
+      fs.writeFileSync(path.resolve(this.rootDir, patch.file), patch.patched);
+    }
+  }
+
+  /**
+   * Unified diff of all patches, suitable for `git apply`
+   */
+  static diff(plan: PatchPlan, context: number = 3): string {
+    return plan.patches.map(patch => LocatorPatcher.diffFile(patch, context)).join('');
+  }
+
+  private static diffFile(patch: FilePatch, context: number): string {
+    const before = patch.original.split('\n');
+    const after = patch.patched.split('\n');
+    const changed = before.map((line, i) => line !== after[i]);
+
+    // Replacements never add or remove lines, so hunks are ranges of changed lines plus context
+    const hunks: { start: number; end: number }[] = [];
+    changed.forEach((isChanged, i) => {
+      if (!isChanged) return;
+      const start = Math.max(0, i - context);
+      const end = Math.min(before.length - 1, i + context);
+      const last = hunks[hunks.length - 1];
+      if (last && start <= last.end + 1) {
+        last.end = end;
+      } else {
+        hunks.push({ start, end });
+      }
+    });
+
+    let out = `--- a/${patch.file}\n+++ b/${patch.file}\n`;
+    for (const hunk of hunks) {
+      const length = hunk.end - hunk.start + 1;
+      out += `@@ -${hunk.start + 1},${length} +${hunk.start + 1},${length} @@\n`;
+      for (let i = hunk.start; i <= hunk.end; i++) {
+        if (changed[i]) {
+          out += `-${before[i]}\n+${after[i]}\n`;
+        } else {
+          out += ` ${before[i]}\n`;
+        }
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Finds the single string literal equal to `value` on the call line or the
+   * few lines after it; returns the reason as a string when there is not exactly one
+   */
+  private findLiteral(
+    lines: string[],
+    line: number,
+    value: string
+  ): { line: number; literal: StringLiteral } | string {
+    for (let lineNumber = line; lineNumber < line + LINES_TO_SEARCH && lineNumber <= lines.length; lineNumber++) {
+      const matches = LocatorPatcher.scanStringLiterals(lines[lineNumber - 1]).filter(l => l.value === value);
+      if (matches.length > 1) {
+        return `ambiguous: ${matches.length} matching literals on line ${lineNumber}`;
+      }
+      if (matches.length === 1) {
+        return { line: lineNumber, literal: matches[0] };
+      }
+    }
+    return `locator literal not found near line ${line}`;
+  }
+
+  private skip(change: HealingChange, reason: string): SkippedHealing {
+    return {
+      originalLocator: change.originalLocator,
+      healedLocator: change.healedLocator,
+      file: change.location?.file,
+      line: change.location?.line,
+      reason,
+    };
+  }
+
+  /**
+   * Finds single-line string literals ('...', "...", `...` without ${}) and decodes them
+   */
+  static scanStringLiterals(line: string): StringLiteral[] {
+    const literals: StringLiteral[] = [];
+    let i = 0;
+
+    while (i < line.length) {
+      const ch = line[i];
+      if (ch === '/' && line[i + 1] === '/') break;
+      if (ch !== "'" && ch !== '"' && ch !== '`') {
+        i++;
+        continue;
+      }
+
+      const start = i;
+      let value = '';
+      let closed = false;
+      let dynamic = false;
+      i++;
+      while (i < line.length) {
+        const c = line[i];
+        if (c === '\\') {
+          const next = line[i + 1] ?? '';
+          value += { n: '\n', t: '\t', r: '\r' }[next as 'n' | 't' | 'r'] ?? next;
+          i += 2;
+          continue;
+        }
+        if (ch === '`' && c === '$' && line[i + 1] === '{') dynamic = true;
+        if (c === ch) {
+          closed = true;
+          i++;
+          break;
+        }
+        value += c;
+        i++;
+      }
+
+      if (closed && !dynamic) {
+        literals.push({ value, quote: ch, start, end: i });
+      }
+    }
+
+    return literals;
+  }
+
+  /**
+   * Encodes a value as a string literal using the given quote character
+   */
+  static quote(value: string, quote: string): string {
+    const escaped = value
+      .replace(/\\/g, '\\\\')
+      .replace(new RegExp(quote, 'g'), `\\${quote}`)
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t');
+    return `${quote}${escaped}${quote}`;
+  }
+}
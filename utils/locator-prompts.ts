@@ -0,0 +1,273 @@
+/**
+ * Prompt text shared by every locator suggestion provider, so that switching
+ * provider changes the model and transport but not what the model is asked.
+ */
+
+export type LocatorStrategy =
+  | 'role'
+  | 'label'
+  | 'placeholder'
+  | 'text'
+  | 'alt-text'
+  | 'title'
+  | 'test-id'
+  | 'css'
+  | 'xpath'
+  | 'other';
+
+export const LOCATOR_STRATEGIES: LocatorStrategy[] = [
+  'role',
+  'label',
+  'placeholder',
+  'text',
+  'alt-text',
+  'title',
+  'test-id',
+  'css',
+  'xpath',
+  'other',
+];
+
+/**
+ * One candidate locator with the model's reasoning, as returned by every provider
+ */
+export interface LocatorSuggestion {
+  /** Playwright locator expression, e.g. getByRole('button', { name: 'Submit' }) */
+  locator: string;
+  strategy: LocatorStrategy;
+  /** 0 to 1; 0.5 when the model did not say */
+  confidence: number;
+  /** Why the model expects this locator to match the intended element */
+  rationale: string;
+}
+
+/**
+ * JSON schema of a model reply, used for OpenAI structured outputs and the
+ * Anthropic tool input. The list is wrapped in an object because strict
+ * structured outputs require an object at the root
+ */
+export const LOCATOR_SUGGESTIONS_SCHEMA = {
+  type: 'object',
+  properties: {
+    suggestions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          locator: {
+            type: 'string',
+            description: "Playwright locator expression, e.g. getByRole('button', { name: 'Submit' })",
+          },
+          strategy: { type: 'string', enum: LOCATOR_STRATEGIES },
+          confidence: { type: 'number', description: 'How likely the locator matches the intended element, 0 to 1' },
+          rationale: { type: 'string', description: 'One sentence on why this locator should work' },
+        },
+        required: ['locator', 'strategy', 'confidence', 'rationale'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['suggestions'],
+  additionalProperties: false,
+};
+
+const REPLY_FORMAT = `Return ONLY a JSON object of this shape, nothing else:
+{"suggestions": [{"locator": "getByRole('button', { name: 'Submit' })", "strategy": "role", "confidence": 0.9, "rationale": "The only button labelled Submit in the form"}]}
+strategy is one of: ${LOCATOR_STRATEGIES.join(', ')}. confidence is between 0 and 1.`;
+
+export const LOCATOR_SYSTEM_PROMPT = `You are a Playwright test automation expert. Your task is to suggest alternative locators when a test fails.
+Always provide valid Playwright locator strategies, e.g. getByRole('button', { name: 'Submit' }), getByTestId('submit-btn'), locator('button:has-text("Submit")').
+For each locator give the strategy it uses, your confidence that it matches the intended element, and a one-sentence rationale.
+${REPLY_FORMAT}`;
+
+export const SCREENSHOT_SYSTEM_PROMPT = `You are a Playwright test automation expert. Analyze screenshots to suggest alternative locators.
+For each locator give the strategy it uses, your confidence that it matches the intended element, and a one-sentence rationale.
+${REPLY_FORMAT}`;
+
+export interface LocatorPromptInput {
+  pageHTML?: string;
+  ariaSnapshot?: string;
+  failedLocator: string;
+  errorMessage: string;
+  elementContext?: string;
+}
+
+export function buildLocatorPrompt(input: LocatorPromptInput): string {
+  const { pageHTML, ariaSnapshot, failedLocator, errorMessage, elementContext } = input;
+
+  const sections: string[] = [];
+  if (ariaSnapshot) {
+    sections.push(`Accessibility Snapshot (roles, accessible names and states):
+${ariaSnapshot}`);
+  }
+  if (pageHTML) {
+    sections.push(`Page HTML (condensed to interactive and labelled elements, grouped by form or landmark, most relevant group first):
+${pageHTML}`);
+  }
+
+  return `
+A Playwright test failed with a locator error.
+
+Failed Locator: ${failedLocator}
+Error: ${errorMessage}
+${elementContext ? `Element Context: ${elementContext}` : ''}
+
+${sections.join('\n\n')}
+
+Analyze the ${ariaSnapshot && !pageHTML ? 'snapshot' : 'page'} and suggest 3-5 alternative Playwright locators that might work.
+Consider:
+1. More robust selectors (role-based, test-ids, text content)
+2. The element's context and nearby elements
+3. Playwright best practices (prefer getByRole, getByLabel, getByTestId)
+${ariaSnapshot ? `4. Use only role and name pairs that appear in the accessibility snapshot for getByRole and getByLabel
+` : ''}
+Order the suggestions from most to least likely, each with its strategy, confidence and a short rationale.
+`;
+}
+
+export function buildScreenshotPrompt(failedLocator: string, errorMessage: string): string {
+  return `This screenshot shows a page where the locator "${failedLocator}" failed with error: "${errorMessage}".
+Suggest 3-5 alternative Playwright locators based on what you see in the screenshot,
+each with its strategy, confidence and a short rationale.`;
+}
+
+/**
+ * Reads suggestions from a model reply. Structured replies (an object from
+ * structured outputs or a tool call) are validated as is; text replies may wrap
+ * the JSON in code fences or prose, or be a plain array of locator strings, as
+ * local models often answer. Entries without a locator are dropped.
+ */
+export function parseLocatorSuggestions(reply: unknown): LocatorSuggestion[] {
+  const value = typeof reply === 'string' ? extractJson(reply) : reply;
+  const list = Array.isArray(value)
+    ? value
+    : value && typeof value === 'object'
+      ? (value as Record<string, unknown>).suggestions ?? (value as Record<string, unknown>).locators
+      : undefined;
+
+  let entries: unknown[] = Array.isArray(list) ? list : value && typeof value === 'object' ? [value] : [];
+  // Prose with one locator per line, e.g. "1. `getByLabel('Email')`"
+  if (entries.length === 0 && typeof reply === 'string') {
+    entries = reply
+      .split('\n')
+      .map(line => line.replace(/^[\s>*\-\d.)]*`?(?:page\.)?/, '').match(/^(?:getBy[A-Za-z]+|locator|frameLocator)\([^`]*\)/)?.[0])
+      .filter((locator): locator is string => Boolean(locator));
+  }
+
+  const suggestions: LocatorSuggestion[] = [];
+  for (const entry of entries) {
+    const suggestion = normalizeSuggestion(entry);
+    if (suggestion && !suggestions.some(s => s.locator === suggestion.locator)) {
+      suggestions.push(suggestion);
+    }
+  }
+  return suggestions;
+}
+
+function normalizeSuggestion(entry: unknown): LocatorSuggestion | null {
+  const fields: Record<string, unknown> =
+    typeof entry === 'string' ? { locator: entry } : entry && typeof entry === 'object' ? (entry as Record<string, unknown>) : {};
+
+  const locator = typeof fields.locator === 'string' ? fields.locator.trim().replace(/^page\./, '') : '';
+  if (!locator) return null;
+
+  const strategy = LOCATOR_STRATEGIES.includes(fields.strategy as LocatorStrategy)
+    ? (fields.strategy as LocatorStrategy)
+    : inferStrategy(locator);
+  // Some models answer in percent
+  let confidence = typeof fields.confidence === 'string' ? parseFloat(fields.confidence) : Number(fields.confidence);
+  if (fields.confidence === undefined || Number.isNaN(confidence)) confidence = 0.5;
+  if (confidence > 1) confidence /= 100;
+
+  return {
+    locator,
+    strategy,
+    confidence: Math.min(1, Math.max(0, confidence)),
+    rationale: typeof fields.rationale === 'string' ? fields.rationale.trim() : '',
+  };
+}
+
+/**
+ * Strategy of a locator expression, for replies that do not name it
+ */
+export function inferStrategy(locator: string): LocatorStrategy {
+  const method = locator.match(/^(?:page\.)?(getBy[A-Za-z]+|locator)\(\s*(['"`]?)(.*)/);
+  if (!method) return 'other';
+  switch (method[1]) {
+    case 'getByRole':
+      return 'role';
+    case 'getByLabel':
+      return 'label';
+    case 'getByPlaceholder':
+      return 'placeholder';
+    case 'getByText':
+      return 'text';
+    case 'getByAltText':
+      return 'alt-text';
+    case 'getByTitle':
+      return 'title';
+    case 'getByTestId':
+      return 'test-id';
+    case 'locator':
+      return /^(xpath=|\/\/|\.\.?\/)/.test(method[3]) ? 'xpath' : 'css';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * The first JSON value in a reply: the whole reply, a fenced block, or the
+ * first balanced [...] or {...} that parses
+ */
+function extractJson(content: string): unknown {
+  const cleaned = cleanJsonResponse(content);
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    // Fall through to scanning
+  }
+
+  for (let start = 0; start < cleaned.length; start++) {
+    const open = cleaned[start];
+    if (open !== '[' && open !== '{') continue;
+    const end = findClosingBracket(cleaned, start);
+    if (end === -1) continue;
+    try {
+      return JSON.parse(cleaned.slice(start, end + 1));
+    } catch {
+      // Not JSON, e.g. "[optional]" in prose; keep scanning
+    }
+  }
+  return undefined;
+}
+
+function findClosingBracket(text: string, start: number): number {
+  const stack: string[] = [];
+  let quote: string | null = null;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"') {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      stack.push(char === '[' ? ']' : '}');
+    } else if (char === ']' || char === '}') {
+      if (stack.pop() !== char) return -1;
+      if (stack.length === 0) return i;
+    }
+  }
+  return -1;
+}
+
+function cleanJsonResponse(content: string): string {
+  // Remove markdown code blocks if present
+  let cleaned = content.trim();
+
+  // A fenced block anywhere in the reply wins over the surrounding prose
+  const fenced = cleaned.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) cleaned = fenced[1];
+
+  return cleaned.trim();
+}
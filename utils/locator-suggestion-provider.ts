@@ -0,0 +1,128 @@
+import { OpenAIService } from './openai-service';
+import { AzureOpenAIService } from './azure-openai-service';
+import { AnthropicService } from './anthropic-service';
+import type { LocatorSuggestion } from './locator-prompts';
+import { RECORDING_MODES, RecordingMode, RecordingProvider } from './recording-provider';
+
+export type { LocatorSuggestion, LocatorStrategy } from './locator-prompts';
+
+export type ProviderName = 'openai' | 'anthropic' | 'azure-openai' | 'local';
+
+export interface LocatorSuggestionRequest {
+  /** Page HTML condensed by DomCondenser; missing when only the accessibility snapshot is sent */
+  pageHTML?: string;
+  /** Playwright accessibility snapshot of the page (healingOptions.pageContext 'aria' or 'both') */
+  ariaSnapshot?: string;
+  failedLocator: string;
+  errorMessage: string;
+  elementContext?: string;
+}
+
+/**
+ * A backend that turns a failed locator plus page context into candidate
+ * replacement locators, best first. Implementations must never throw for API
+ * errors; they log and return an empty list so healing can fall through.
+ */
+export interface LocatorSuggestionProvider {
+  readonly name: string;
+  readonly model: string;
+
+  suggestLocator(request: LocatorSuggestionRequest): Promise<LocatorSuggestion[]>;
+
+  analyzeScreenshotForLocator(
+    screenshotPath: string,
+    failedLocator: string,
+    errorMessage: string
+  ): Promise<LocatorSuggestion[]>;
+}
+
+export interface HealingProviderOptions {
+  /** Defaults to HEALING_PROVIDER, then 'openai' */
+  provider?: ProviderName;
+  /** Model (or Azure deployment) name; defaults to HEALING_MODEL, then the provider default */
+  model?: string;
+  /** Endpoint override; defaults to HEALING_BASE_URL */
+  baseURL?: string;
+  /** Defaults to the provider's usual key variable (OPENAI_API_KEY, ANTHROPIC_API_KEY, AZURE_OPENAI_API_KEY) */
+  apiKey?: string;
+  /**
+   * Ask for schema-constrained JSON (OpenAI structured outputs, an Anthropic tool
+   * call). Defaults to true, except for 'local', whose servers may not support it;
+   * replies are parsed leniently either way
+   */
+  structuredOutput?: boolean;
+  /** Record the provider's replies, or replay recorded ones offline; defaults to HEALING_RECORD */
+  record?: RecordingMode;
+  /** Where recorded replies are kept; defaults to HEALING_RECORDINGS_DIR, then tests/fixtures/healing-recordings */
+  recordingsDir?: string;
+}
+
+const PROVIDER_NAMES: ProviderName[] = ['openai', 'anthropic', 'azure-openai', 'local'];
+
+/**
+ * Builds the configured provider, or returns null when it is missing the
+ * credentials it needs (healing then runs without AI suggestions). With
+ * `record` set, the provider is wrapped by a RecordingProvider; replaying
+ * needs no credentials.
+ */
+export function createSuggestionProvider(
+  options: HealingProviderOptions = {},
+  env: NodeJS.ProcessEnv = process.env
+): LocatorSuggestionProvider | null {
+  const record = options.record || (env.HEALING_RECORD as RecordingMode | undefined);
+  if (record && !RECORDING_MODES.includes(record)) {
+    throw new Error(`Unknown healing record mode "${record}". Expected one of: ${RECORDING_MODES.join(', ')}`);
+  }
+
+  const provider = record === 'replay' ? null : createLiveProvider(options, env);
+  if (!record || (record === 'record' && !provider)) return provider;
+  return new RecordingProvider({ mode: record, dir: options.recordingsDir || env.HEALING_RECORDINGS_DIR, provider });
+}
+
+function createLiveProvider(options: HealingProviderOptions, env: NodeJS.ProcessEnv): LocatorSuggestionProvider | null {
+  const provider = options.provider || (env.HEALING_PROVIDER as ProviderName | undefined) || 'openai';
+  const model = options.model || env.HEALING_MODEL;
+  const baseURL = options.baseURL || env.HEALING_BASE_URL;
+
+  if (!PROVIDER_NAMES.includes(provider)) {
+    throw new Error(`Unknown healing provider "${provider}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  switch (provider) {
+    case 'openai': {
+      const apiKey = options.apiKey || env.OPENAI_API_KEY;
+      if (!apiKey) return null;
+      return new OpenAIService({ apiKey, model, baseURL, structuredOutput: options.structuredOutput });
+    }
+
+    case 'anthropic': {
+      const apiKey = options.apiKey || env.ANTHROPIC_API_KEY;
+      if (!apiKey) return null;
+      return new AnthropicService({ apiKey, model, baseURL, structuredOutput: options.structuredOutput });
+    }
+
+    case 'azure-openai': {
+      const apiKey = options.apiKey || env.AZURE_OPENAI_API_KEY;
+      const endpoint = baseURL || env.AZURE_OPENAI_ENDPOINT;
+      const deployment = model || env.AZURE_OPENAI_DEPLOYMENT;
+      if (!apiKey || !endpoint || !deployment) return null;
+      return new AzureOpenAIService({
+        apiKey,
+        endpoint,
+        deployment,
+        apiVersion: env.OPENAI_API_VERSION,
+        structuredOutput: options.structuredOutput,
+      });
+    }
+
+    case 'local':
+      // Ollama and llama.cpp expose an OpenAI-compatible API and ignore the key
+      return new OpenAIService({
+        name: 'local',
+        apiKey: options.apiKey || env.HEALING_API_KEY || 'not-needed',
+        model: model || 'llama3.1',
+        baseURL: baseURL || 'http://localhost:11434/v1',
+        structuredOutput: options.structuredOutput ?? false,
+      });
+  }
+}
@@ -0,0 +1,154 @@
+import { Locator } from '@playwright/test';
+import { ElementFingerprint, ElementFingerprinter } from './element-fingerprint';
+
+export const EDITABLE_ROLES = ['textbox', 'searchbox', 'combobox', 'spinbutton'];
+
+/**
+ * Roles an element must have for the action to make sense on it
+ */
+export const ACTION_ROLES: { [action: string]: string[] } = {
+  fill: EDITABLE_ROLES,
+  type: EDITABLE_ROLES,
+  check: ['checkbox', 'radio', 'switch', 'menuitemcheckbox', 'menuitemradio'],
+  uncheck: ['checkbox', 'radio', 'switch', 'menuitemcheckbox', 'menuitemradio'],
+  selectOption: ['combobox', 'listbox'],
+};
+
+/**
+ * Actions that do not need a visible element: file inputs are usually hidden
+ * behind a styled button, and attached or hidden waits only need the element
+ */
+const HIDDEN_ELEMENT_ACTIONS = ['setInputFiles', 'toBeAttached', 'waitFor:attached', 'waitFor:hidden'];
+
+/**
+ * Action name of a waitFor call: waits that do not need a visible element are
+ * told apart by their state, e.g. "waitFor:attached"
+ */
+export function waitForAction(options?: { state?: string }): string {
+  return options?.state && options.state !== 'visible' ? `waitFor:${options.state}` : 'waitFor';
+}
+
+export interface VerificationResult {
+  ok: boolean;
+  /** Why the candidate was rejected */
+  reason?: string;
+  /** Fingerprint of the element the candidate resolved to */
+  fingerprint?: ElementFingerprint;
+  /** Similarity to the original element's fingerprint, when one was available */
+  similarity?: number;
+}
+
+/**
+ * Decides whether a candidate locator really targets the element the test
+ * meant: exactly one match, visible (unless the action works on hidden
+ * elements), suitable for the action, and (when we have one) the same element
+ * as the original target: same tag and role, named the same unless it kept
+ * its id or name, and similar overall.
+ */
+export class LocatorVerifier {
+  constructor(
+    private minSimilarity: number = 0.6,
+    private timeout: number = 2000
+  ) {}
+
+  async verify(locator: Locator, action: string, expected?: ElementFingerprint): Promise<VerificationResult> {
+    try {
+      await locator.first().waitFor({ state: 'attached', timeout: this.timeout });
+    } catch (e) {
+      return { ok: false, reason: 'No matching element' };
+    }
+
+    const fingerprints = await ElementFingerprinter.captureAll(locator);
+
+    // Count assertions target a list, so more than one match is expected
+    if (action === 'toHaveCount') {
+      return { ok: true, fingerprint: fingerprints[0] };
+    }
+
+    if (fingerprints.length !== 1) {
+      return { ok: false, reason: `Matches ${fingerprints.length} elements, expected exactly one` };
+    }
+
+    const [fingerprint] = fingerprints;
+    if (!fingerprint.visible && !HIDDEN_ELEMENT_ACTIONS.includes(action)) {
+      return { ok: false, reason: 'Element is not visible', fingerprint };
+    }
+
+    const actionProblem = LocatorVerifier.checkAction(action, fingerprint);
+    if (actionProblem) {
+      return { ok: false, reason: actionProblem, fingerprint };
+    }
+
+    if (!expected) {
+      return { ok: true, fingerprint };
+    }
+
+    const { score, mismatches } = ElementFingerprinter.compare(expected, fingerprint);
+
+    // A sibling field scores high on everything but what tells it apart
+    const keyMismatches = LocatorVerifier.keyMismatches(expected, fingerprint);
+    if (keyMismatches.length > 0) {
+      return {
+        ok: false,
+        reason: `Not the original element (different ${keyMismatches.join(', ')}; similarity ${score.toFixed(2)})`,
+        fingerprint,
+        similarity: score,
+      };
+    }
+
+    if (score < this.minSimilarity) {
+      return {
+        ok: false,
+        reason: `Does not match the original element (similarity ${score.toFixed(2)}; differs in ${mismatches.join(', ')})`,
+        fingerprint,
+        similarity: score,
+      };
+    }
+
+    return { ok: true, fingerprint, similarity: score };
+  }
+
+  /**
+   * Key fields in which the element differs from the recorded one: tag, role,
+   * and its name or label when it kept neither its id nor its name attribute
+   */
+  static keyMismatches(expected: ElementFingerprint, actual: ElementFingerprint): string[] {
+    const mismatches: string[] = [];
+    if (expected.tag && expected.tag !== actual.tag) mismatches.push('tag');
+    if (expected.role && actual.role && expected.role !== actual.role) mismatches.push('role');
+
+    const keptIdentifier = (!!expected.id && expected.id === actual.id) || (!!expected.name && expected.name === actual.name);
+    if (!keptIdentifier) {
+      mismatches.push(...ElementFingerprinter.namingConflicts(expected, actual));
+    }
+    return mismatches;
+  }
+
+  /**
+   * Returns a reason when the element cannot take the action, e.g. fill on a button
+   */
+  static checkAction(action: string, fingerprint: ElementFingerprint): string | null {
+    const description = ElementFingerprinter.describe(fingerprint);
+
+    switch (action) {
+      case 'fill':
+      case 'type':
+        return fingerprint.editable ? null : `${action} needs an editable element, got ${description}`;
+      case 'check':
+      case 'uncheck':
+        return ACTION_ROLES[action].includes(fingerprint.role)
+          ? null
+          : `${action} needs a checkbox or radio, got ${description}`;
+      case 'selectOption':
+        return fingerprint.tag === 'select' || ACTION_ROLES.selectOption.includes(fingerprint.role)
+          ? null
+          : `selectOption needs a <select>, got ${description}`;
+      case 'setInputFiles':
+        return fingerprint.tag === 'input' && fingerprint.type === 'file'
+          ? null
+          : `setInputFiles needs an <input type="file">, got ${description}`;
+      default:
+        return null;
+    }
+  }
+}
@@ -1,36 +1,58 @@
 import OpenAI from 'openai';
 import * as fs from 'fs';
+import { LocatorSuggestion, LocatorSuggestionProvider, LocatorSuggestionRequest } from './locator-suggestion-provider';
+import {
+  LOCATOR_SUGGESTIONS_SCHEMA,
+  LOCATOR_SYSTEM_PROMPT,
+  SCREENSHOT_SYSTEM_PROMPT,
+  buildLocatorPrompt,
+  buildScreenshotPrompt,
+  parseLocatorSuggestions,
+} from './locator-prompts';
+
+export interface OpenAIServiceOptions {
+  apiKey?: string;
+  model?: string;
+  /** Base URL of an OpenAI-compatible endpoint (Ollama, llama.cpp server, ...) */
+  baseURL?: string;
+  /** Provider name used in logs and healing records */
+  name?: string;
+  /** Pre-configured client, used by the Azure OpenAI provider */
+  client?: OpenAI;
+  /** Request replies that match LOCATOR_SUGGESTIONS_SCHEMA (default: true) */
+  structuredOutput?: boolean;
+}
 
-export class OpenAIService {
+export class OpenAIService implements LocatorSuggestionProvider {
+  readonly name: string;
+  readonly model: string;
   private client: OpenAI;
+  private structuredOutput: boolean;
+
+  constructor(options: OpenAIServiceOptions) {
+    this.name = options.name || 'openai';
+    this.model = options.model || 'gpt-4o';
+    this.structuredOutput = options.structuredOutput ?? true;
 
-  constructor(apiKey: string) {
-    console.log('   🔌 Initializing OpenAI client...');
-    this.client = new OpenAI({ apiKey });
-    console.log('   ✓ OpenAI client initialized');
+    console.log(`   🔌 Initializing ${this.name} client...`);
+    this.client = options.client || new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+    console.log(`   ✓ ${this.name} client initialized (model: ${this.model})`);
   }
 
   /**
    * Suggests alternative locators based on the page HTML and error context
    */
-  async suggestLocator(
-    pageHTML: string,
-    failedLocator: string,
-    errorMessage: string,
-    elementContext?: string
-  ): Promise<string[]> {
-    const prompt = this.buildLocatorPrompt(pageHTML, failedLocator, errorMessage, elementContext);
+  async suggestLocator(request: LocatorSuggestionRequest): Promise<LocatorSuggestion[]> {
+    const prompt = buildLocatorPrompt(request);
 
     try {
-      console.log('   📡 Calling OpenAI API (GPT-4)...');
+      console.log(`   📡 Calling ${this.name} API (${this.model})...`);
       const response = await this.client.chat.completions.create({
-        model: 'gpt-4o',
+        model: this.model,
         messages: [
           {
             role: 'system',
-            content: `You are a Playwright test automation expert. Your task is to suggest alternative locators when a test fails.
-Always provide valid Playwright locator strategies. Return ONLY a JSON array of alternative locator strings, nothing else.
-Examples: ["getByRole('button', { name: 'Submit' })", "getByTestId('submit-btn')", "locator('button:has-text(\"Submit\")')]"`,
+            content: LOCATOR_SYSTEM_PROMPT,
           },
           {
             role: 'user',
@@ -38,69 +60,23 @@ Examples: ["getByRole('button', { name: 'Submit' })", "getByTestId('submit-btn')
           },
         ],
         temperature: 0.3,
-        max_tokens: 500,
+        max_tokens: 800,
+        ...this.responseFormat(),
       });
-      console.log('   ✓ OpenAI API responded');
+      console.log(`   ✓ ${this.name} API responded`);
 
       const content = response.choices[0]?.message?.content;
       if (!content) {
-        throw new Error('No response from OpenAI');
+        throw new Error(`No response from ${this.name}`);
       }
 
-      // Parse the JSON array response, handling markdown code blocks
-      const cleanedContent = this.cleanJsonResponse(content);
-      const suggestions = JSON.parse(cleanedContent);
-      return Array.isArray(suggestions) ? suggestions : [];
+      return this.parse(content);
     } catch (error) {
-      console.error('   ✗ OpenAI API error:', error instanceof Error ? error.message : error);
+      console.error(`   ✗ ${this.name} API error:`, error instanceof Error ? error.message : error);
       return [];
     }
   }
 
-  private buildLocatorPrompt(
-    pageHTML: string,
-    failedLocator: string,
-    errorMessage: string,
-    elementContext?: string
-  ): string {
-    // Truncate HTML if too long (keep it under 10000 chars)
-    const truncatedHTML = pageHTML.length > 10000 
-      ? pageHTML.substring(0, 10000) + '\n... [HTML truncated]'
-      : pageHTML;
-
-    return `
-A Playwright test failed with a locator error.
-
-Failed Locator: ${failedLocator}
-Error: ${errorMessage}
-${elementContext ? `Element Context: ${elementContext}` : ''}
-
-Page HTML:
-${truncatedHTML}
-
-Analyze the HTML and suggest 3-5 alternative Playwright locators that might work.
-Consider:
-1. More robust selectors (role-based, test-ids, text content)
-2. The element's context and nearby elements
-3. Playwright best practices (prefer getByRole, getByLabel, getByTestId)
-
-Return ONLY a JSON array of locator strings. Example format:
-["getByRole('button', { name: 'Click me' })", "getByTestId('submit-button')", "locator('button.submit')"]
-`;
-  }
-
-  private cleanJsonResponse(content: string): string {
-    // Remove markdown code blocks if present
-    let cleaned = content.trim();
-    
-    // Remove ```json and ``` markers
-    cleaned = cleaned.replace(/^```json\s*/i, '');
-    cleaned = cleaned.replace(/^```\s*/i, '');
-    cleaned = cleaned.replace(/\s*```$/i, '');
-    
-    return cleaned.trim();
-  }
-
   /**
    * Takes a screenshot and uses vision API to help identify elements
    */
@@ -108,7 +84,7 @@ Return ONLY a JSON array of locator strings. Example format:
     screenshotPath: string,
     failedLocator: string,
     errorMessage: string
-  ): Promise<string[]> {
+  ): Promise<LocatorSuggestion[]> {
     if (!fs.existsSync(screenshotPath)) {
       console.error('Screenshot not found:', screenshotPath);
       return [];
@@ -119,21 +95,18 @@ Return ONLY a JSON array of locator strings. Example format:
 
     try {
       const response = await this.client.chat.completions.create({
-        model: 'gpt-4o',
+        model: this.model,
         messages: [
           {
             role: 'system',
-            content: `You are a Playwright test automation expert. Analyze screenshots to suggest alternative locators.
-Return ONLY a JSON array of alternative locator strings.`,
+            content: SCREENSHOT_SYSTEM_PROMPT,
           },
           {
             role: 'user',
             content: [
               {
                 type: 'text',
-                text: `This screenshot shows a page where the locator "${failedLocator}" failed with error: "${errorMessage}".
-Suggest 3-5 alternative Playwright locators based on what you see in the screenshot.
-Return ONLY a JSON array of locator strings.`,
+                text: buildScreenshotPrompt(failedLocator, errorMessage),
               },
               {
                 type: 'image_url',
@@ -145,20 +118,41 @@ Return ONLY a JSON array of locator strings.`,
           },
         ],
         temperature: 0.3,
-        max_tokens: 500,
+        max_tokens: 800,
+        ...this.responseFormat(),
       });
 
       const content = response.choices[0]?.message?.content;
       if (!content) {
-        throw new Error('No response from OpenAI');
+        throw new Error(`No response from ${this.name}`);
       }
 
-      const cleanedContent = this.cleanJsonResponse(content);
-      const suggestions = JSON.parse(cleanedContent);
-      return Array.isArray(suggestions) ? suggestions : [];
+      return this.parse(content);
     } catch (error) {
-      console.error('OpenAI Vision API error:', error);
+      console.error(`${this.name} Vision API error:`, error);
       return [];
     }
   }
+
+  /**
+   * Structured outputs constrain the reply to the suggestion schema; without
+   * them the prompt still asks for the same JSON
+   */
+  private responseFormat(): Pick<OpenAI.Chat.ChatCompletionCreateParamsNonStreaming, 'response_format'> {
+    if (!this.structuredOutput) return {};
+    return {
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'locator_suggestions', schema: LOCATOR_SUGGESTIONS_SCHEMA, strict: true },
+      },
+    };
+  }
+
+  private parse(content: string): LocatorSuggestion[] {
+    const suggestions = parseLocatorSuggestions(content);
+    if (suggestions.length === 0) {
+      console.log(`   ⚠ No locators found in the ${this.name} reply: ${content.slice(0, 200)}`);
+    }
+    return suggestions;
+  }
 }
@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { LocatorSuggestion, LocatorSuggestionProvider, LocatorSuggestionRequest } from './locator-suggestion-provider';
+import { buildLocatorPrompt, buildScreenshotPrompt } from './locator-prompts';
+
+/**
+ * - record: ask the wrapped provider and save every prompt and reply
+ * - replay: answer from the saved replies only, without network
+ */
+export type RecordingMode = 'record' | 'replay';
+
+export const RECORDING_MODES: RecordingMode[] = ['record', 'replay'];
+
+export const DEFAULT_RECORDINGS_DIR = path.join('tests', 'fixtures', 'healing-recordings');
+
+export type RecordingKind = 'locator' | 'screenshot';
+
+/**
+ * One saved prompt and reply, stored as <kind>-<hash>.json
+ */
+export interface ProviderRecording {
+  kind: RecordingKind;
+  /** Provider and model that gave the reply */
+  provider: string;
+  model: string;
+  prompt: string;
+  suggestions: LocatorSuggestion[];
+  recordedAt: string;
+}
+
+export interface RecordingProviderOptions {
+  mode: RecordingMode;
+  /** Defaults to tests/fixtures/healing-recordings */
+  dir?: string;
+  /** Provider whose replies are recorded; not needed to replay */
+  provider?: LocatorSuggestionProvider | null;
+}
+
+/**
+ * Wraps a suggestion provider to record its replies to fixture files keyed by
+ * a hash of the prompt, and to replay them later without network, so healing
+ * runs are deterministic in tests and CI
+ */
+export class RecordingProvider implements LocatorSuggestionProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dir: string;
+  private mode: RecordingMode;
+  private provider: LocatorSuggestionProvider | null;
+
+  constructor(options: RecordingProviderOptions) {
+    if (options.mode === 'record' && !options.provider) {
+      throw new Error('Recording healing replies needs a configured provider');
+    }
+    this.mode = options.mode;
+    this.dir = options.dir || DEFAULT_RECORDINGS_DIR;
+    this.provider = options.provider || null;
+    this.name = this.mode === 'replay' ? 'replay' : this.provider!.name;
+    this.model = this.mode === 'replay' ? 'recorded' : this.provider!.model;
+    console.log(`   📼 ${this.mode === 'replay' ? 'Replaying' : 'Recording'} healing replies in ${this.dir}`);
+  }
+
+  /**
+   * Playwright's call log in an error message changes between runs (retry
+   * counts, timings), so only its first line is part of the key
+   */
+  static promptFor(kind: RecordingKind, request: LocatorSuggestionRequest): string {
+    const errorMessage = request.errorMessage.split('\n')[0];
+    return kind === 'locator'
+      ? buildLocatorPrompt({ ...request, errorMessage })
+      : buildScreenshotPrompt(request.failedLocator, errorMessage);
+  }
+
+  static key(prompt: string): string {
+    return createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+  }
+
+  filePath(kind: RecordingKind, prompt: string): string {
+    return path.join(this.dir, `${kind}-${RecordingProvider.key(prompt)}.json`);
+  }
+
+  async suggestLocator(request: LocatorSuggestionRequest): Promise<LocatorSuggestion[]> {
+    return this.respond('locator', RecordingProvider.promptFor('locator', request), provider =>
+      provider.suggestLocator(request)
+    );
+  }
+
+  /**
+   * Keyed by the prompt only: screenshots differ in anti-aliasing and carets
+   * between runs
+   */
+  async analyzeScreenshotForLocator(
+    screenshotPath: string,
+    failedLocator: string,
+    errorMessage: string
+  ): Promise<LocatorSuggestion[]> {
+    const prompt = RecordingProvider.promptFor('screenshot', { failedLocator, errorMessage });
+    return this.respond('screenshot', prompt, provider =>
+      provider.analyzeScreenshotForLocator(screenshotPath, failedLocator, errorMessage)
+    );
+  }
+
+  private async respond(
+    kind: RecordingKind,
+    prompt: string,
+    ask: (provider: LocatorSuggestionProvider) => Promise<LocatorSuggestion[]>
+  ): Promise<LocatorSuggestion[]> {
+    const file = this.filePath(kind, prompt);
+
+    if (this.mode === 'replay') {
+      if (!fs.existsSync(file)) {
+        console.log(`   ✗ No recorded reply for this prompt (${file}); record it with HEALING_RECORD=record`);
+        return [];
+      }
+      try {
+        const recording: ProviderRecording = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        console.log(`   📼 Replaying ${recording.provider}/${recording.model} reply from ${file}`);
+        return recording.suggestions;
+      } catch (e) {
+        console.log(`   ✗ Could not read recorded reply ${file}: ${(e as Error).message}`);
+        return [];
+      }
+    }
+
+    const suggestions = await ask(this.provider!);
+    // Providers return an empty list for API errors too, which must not be replayed
+    if (suggestions.length === 0) return suggestions;
+
+    const recording: ProviderRecording = {
+      kind,
+      provider: this.provider!.name,
+      model: this.provider!.model,
+      prompt,
+      suggestions,
+      recordedAt: new Date().toISOString(),
+    };
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(recording, null, 2) + '\n');
+      console.log(`   📼 Recorded reply to ${file}`);
+    } catch (e) {
+      console.log(`   ⚠ Could not record reply to ${file}: ${(e as Error).message}`);
+    }
+    return suggestions;
+  }
+}
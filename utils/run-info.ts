@@ -0,0 +1,35 @@
+import { execSync } from 'child_process';
+import { randomUUID } from 'crypto';
+
+export interface RunIdentity {
+  /** GITHUB_RUN_ID (plus the attempt when re-run), otherwise a random id */
+  runId: string;
+  gitSha?: string;
+  branch?: string;
+}
+
+/**
+ * Identifies the current test run from CI variables, falling back to git
+ */
+export class RunInfo {
+  static collect(env: NodeJS.ProcessEnv = process.env): RunIdentity {
+    const runId = env.GITHUB_RUN_ID
+      ? `${env.GITHUB_RUN_ID}${env.GITHUB_RUN_ATTEMPT && env.GITHUB_RUN_ATTEMPT !== '1' ? `-${env.GITHUB_RUN_ATTEMPT}` : ''}`
+      : randomUUID();
+
+    return {
+      runId,
+      gitSha: env.GITHUB_SHA || RunInfo.git('rev-parse HEAD'),
+      // GITHUB_HEAD_REF is the PR branch, GITHUB_REF_NAME is "123/merge" for PRs
+      branch: env.GITHUB_HEAD_REF || env.GITHUB_REF_NAME || RunInfo.git('rev-parse --abbrev-ref HEAD'),
+    };
+  }
+
+  private static git(args: string): string | undefined {
+    try {
+      return execSync(`git ${args}`, { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim() || undefined;
+    } catch (e) {
+      return undefined;
+    }
+  }
+}
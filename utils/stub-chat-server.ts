@@ -0,0 +1,148 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { LocatorSuggestion, parseLocatorSuggestions } from './locator-prompts';
+
+/**
+ * Canned reply for prompts that contain `match`, e.g. the failed locator
+ */
+export interface StubChatRule {
+  match: string | RegExp;
+  /** Plain locator strings get a strategy inferred and confidence 0.5 */
+  suggestions: Array<string | LocatorSuggestion>;
+}
+
+/**
+ * A chat-completions request as the stub received it
+ */
+export interface StubChatRequest {
+  model: string;
+  /** System and user text, image parts left out */
+  messages: Array<{ role: string; content: string }>;
+  /** The response_format sent, e.g. { type: 'json_schema', ... } */
+  responseFormat?: unknown;
+  hasImage: boolean;
+}
+
+export interface StubChatServerOptions {
+  /** Defaults to a free port */
+  port?: number;
+  /** Defaults to 127.0.0.1 */
+  host?: string;
+  rules?: StubChatRule[];
+}
+
+/**
+ * Local server speaking the OpenAI chat-completions protocol, for running the
+ * `local` provider without a model: each request is answered with the
+ * suggestions of the first rule that matches the prompt, or none
+ */
+export class StubChatServer {
+  readonly requests: StubChatRequest[] = [];
+  private rules: StubChatRule[];
+  private server: http.Server | null = null;
+  private port: number;
+  private host: string;
+
+  constructor(options: StubChatServerOptions = {}) {
+    this.rules = [...(options.rules || [])];
+    this.port = options.port ?? 0;
+    this.host = options.host || '127.0.0.1';
+  }
+
+  /**
+   * Base URL for the provider's `baseURL` option, e.g. http://127.0.0.1:41234/v1
+   */
+  get baseURL(): string {
+    if (!this.server) throw new Error('Stub chat server is not running');
+    return `http://${this.host}:${(this.server.address() as AddressInfo).port}/v1`;
+  }
+
+  addRule(rule: StubChatRule): void {
+    this.rules.push(rule);
+  }
+
+  async start(): Promise<string> {
+    const server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => resolve());
+    });
+    this.server = server;
+    return this.baseURL;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Reply content for a request: the first matching rule's suggestions as the
+   * JSON object the prompts ask for
+   */
+  reply(request: StubChatRequest): string {
+    const prompt = request.messages.map(message => message.content).join('\n');
+    const rule = this.rules.find(r => (typeof r.match === 'string' ? prompt.includes(r.match) : r.match.test(prompt)));
+    return JSON.stringify({ suggestions: parseLocatorSuggestions(rule?.suggestions || []) });
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = (req.url || '').replace(/\/+$/, '');
+
+    if (req.method === 'GET' && url.endsWith('/models')) {
+      this.send(res, 200, { object: 'list', data: [{ id: 'stub', object: 'model', created: 0, owned_by: 'stub' }] });
+      return;
+    }
+    if (req.method !== 'POST' || !url.endsWith('/chat/completions')) {
+      this.send(res, 404, { error: { message: `No route for ${req.method} ${req.url}`, type: 'invalid_request_error' } });
+      return;
+    }
+
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      let request: StubChatRequest;
+      try {
+        request = this.parseRequest(JSON.parse(body));
+      } catch (e) {
+        this.send(res, 400, { error: { message: `Invalid request: ${(e as Error).message}`, type: 'invalid_request_error' } });
+        return;
+      }
+
+      this.requests.push(request);
+      const content = this.reply(request);
+      this.send(res, 200, {
+        id: `chatcmpl-stub-${this.requests.length}`,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model: request.model,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      });
+    });
+  }
+
+  private parseRequest(body: any): StubChatRequest {
+    if (!body || !Array.isArray(body.messages)) {
+      throw new Error('messages must be an array');
+    }
+    let hasImage = false;
+    const messages = body.messages.map((message: any) => {
+      const parts = typeof message.content === 'string' ? [{ type: 'text', text: message.content }] : message.content || [];
+      hasImage = hasImage || parts.some((part: any) => part.type === 'image_url');
+      return {
+        role: String(message.role),
+        content: parts.filter((part: any) => part.type === 'text').map((part: any) => part.text).join('\n'),
+      };
+    });
+    return { model: String(body.model || 'stub'), messages, responseFormat: body.response_format, hasImage };
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * String distance helpers shared by the heuristic healer and fingerprint matching
+ */
+export class TextSimilarity {
+  /**
+   * Normalised edit-distance similarity in [0, 1]
+   */
+  static similarity(a: string, b: string): number {
+    const x = a.toLowerCase().trim();
+    const y = b.toLowerCase().trim();
+    if (!x || !y) return 0;
+    if (x === y) return 1;
+    return 1 - TextSimilarity.editDistance(x, y) / Math.max(x.length, y.length);
+  }
+
+  /**
+   * Levenshtein distance that counts swapping two adjacent characters as one
+   * edit, so typos like "emial" stay close on short identifiers
+   */
+  static editDistance(a: string, b: string): number {
+    let beforePrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+        }
+      }
+      beforePrevious = previous;
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  /**
+   * Splits identifiers like "customer.firstName" or "first_name" into lowercase words
+   */
+  static words(text: string): string[] {
+    return text
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(w => w.length >= 3);
+  }
+
+  /**
+   * Average best-match similarity of each word against the other list
+   */
+  static wordOverlap(words: string[], others: string[]): number {
+    if (words.length === 0 || others.length === 0) return 0;
+    const total = words.reduce(
+      (sum, word) => sum + Math.max(...others.map(other => TextSimilarity.similarity(word, other))),
+      0
+    );
+    return total / words.length;
+  }
+}